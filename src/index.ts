@@ -30,6 +30,9 @@ const SERVER_INFO = {
 const args = process.argv.slice(2);
 const providedInitScriptPath = args[0] || process.env.TAILPIPE_MCP_INIT_SCRIPT_PATH;
 
+// Rebuild the session whenever the init script changes on disk (opt-in)
+const watchInitScript = process.env.TAILPIPE_MCP_WATCH_INIT_SCRIPT === 'true';
+
 // Track server start time
 let serverStartTime: string;
 
@@ -43,6 +46,7 @@ function setupShutdownHandlers(db: DatabaseService) {
   const gracefulShutdown = async () => {
     if (db) {
       try {
+        db.unwatchInitScript();
         await db.close();
       } catch (error) {
         logger.error(`Error closing database: ${error instanceof Error ? error.message : String(error)}`);
@@ -69,7 +73,7 @@ async function startServer() {
         capabilities: {
           tools,
           prompts: promptCapabilities.prompts,
-          resources: resourceCapabilities.resources,
+          resources: { ...resourceCapabilities.resources, subscribe: true, listChanged: true },
           resourceTemplates: resourceTemplateCapabilities.resourceTemplates
         }
       }
@@ -78,6 +82,10 @@ async function startServer() {
     // Initialize database connection
     const db = await DatabaseService.create(providedInitScriptPath);
     logger.info("Database connection initialized successfully");
+
+    if (watchInitScript) {
+      db.watchInitScript();
+    }
     
     // Set up shutdown handlers
     logger.info("Setting up shutdown handlers...");
@@ -0,0 +1,33 @@
+import { logger } from '../services/logger.js';
+import { executeCommand } from '../utils/command.js';
+import { buildTailpipeCommand, getTailpipeEnv } from '../utils/tailpipe.js';
+import { stringifyResponse } from '../utils/format.js';
+
+// Names of Tailpipe resources, e.g. aws_cloudtrail_log.prod or hub.tailpipe.io/plugins/turbot/aws@latest
+const RESOURCE_NAME = /^[\w.@:/-]+$/;
+
+/**
+ * Reads a resource from a `tailpipe <kind> show` command
+ * @param kind The kind of resource, e.g. partition or plugin
+ * @param name The resource name from the URI
+ * @param uri The URI being read
+ * @throws Error if the name is not a valid resource name or the command fails
+ */
+export async function readCliResource(kind: string, name: string, uri: string) {
+  if (!RESOURCE_NAME.test(name)) {
+    throw new Error(`Invalid ${kind} name: ${name}`);
+  }
+
+  const cmd = buildTailpipeCommand(`${kind} show "${name}"`, { output: 'json' });
+  logger.debug(`Reading ${kind} resource with: ${cmd}`);
+
+  return {
+    contents: [
+      {
+        uri,
+        mimeType: "application/json",
+        text: stringifyResponse({ [kind]: JSON.parse(executeCommand(cmd, { env: getTailpipeEnv() })) })
+      }
+    ]
+  };
+}
@@ -1,25 +1,58 @@
 import { ListResourceTemplatesRequestSchema } from "@modelcontextprotocol/sdk/types.js";
 import type { Server } from "@modelcontextprotocol/sdk/server/index.js";
+import { UriTemplate } from "@modelcontextprotocol/sdk/shared/uriTemplate.js";
+import { DatabaseService } from "../services/database.js";
 import { logger } from '../services/logger.js';
+import { resourceTemplate as tableTemplate } from "./table.js";
+import { resourceTemplate as partitionTemplate } from "./partition.js";
+import { resourceTemplate as pluginTemplate } from "./plugin.js";
+import { resourceTemplate as sourceTemplate } from "./source.js";
 import type { ResourceTemplate } from "../types/resourceTemplate.js";
 
 // Register all available resource templates
 const resourceTemplates: ResourceTemplate[] = [
-  // No templates yet, but they would be registered here
+  tableTemplate,
+  partitionTemplate,
+  pluginTemplate,
+  sourceTemplate
 ];
 
+const parsedTemplates = resourceTemplates.map(template => ({ template, uriTemplate: new UriTemplate(template.uriTemplate) }));
+
 // Export resource templates for server capabilities
 export const resourceTemplateCapabilities = {
   resourceTemplates: Object.fromEntries(
     resourceTemplates.map(t => [t.name, {
-      uri: t.uri,
+      uriTemplate: t.uriTemplate,
       name: t.name,
       type: t.type,
+      mimeType: t.mimeType,
       description: t.description
     }])
   )
 };
 
+/**
+ * Reads a resource whose URI matches one of the resource templates
+ * @param db The database service
+ * @param uri The URI to read
+ * @returns The resource contents, or undefined if no template matches the URI
+ */
+export async function readTemplatedResource(db: DatabaseService, uri: string) {
+  for (const { template, uriTemplate } of parsedTemplates) {
+    const match = uriTemplate.match(uri);
+    if (!match) {
+      continue;
+    }
+
+    const variables = Object.fromEntries(Object.entries(match).map(([name, value]) =>
+      [name, decodeURIComponent(Array.isArray(value) ? value.join(',') : value)]
+    ));
+    return template.handler(db, variables, uri);
+  }
+  return undefined;
+}
+
 export function setupResourceTemplateHandlers(server: Server) {
   // Register resource template list handler
   server.setRequestHandler(ListResourceTemplatesRequestSchema, async () => {
@@ -0,0 +1,11 @@
+import type { ResourceTemplate } from "../types/resourceTemplate.js";
+import { readCliResource } from "./cli.js";
+
+export const resourceTemplate: ResourceTemplate = {
+  uriTemplate: "tailpipe://partitions/{name}",
+  name: "partition",
+  type: "Partition",
+  mimeType: "application/json",
+  description: "Configuration and statistics of a Tailpipe partition, from tailpipe partition show.",
+  handler: async (_db, variables, uri) => readCliResource('partition', variables.name, uri)
+};
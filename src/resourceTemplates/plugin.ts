@@ -0,0 +1,11 @@
+import type { ResourceTemplate } from "../types/resourceTemplate.js";
+import { readCliResource } from "./cli.js";
+
+export const resourceTemplate: ResourceTemplate = {
+  uriTemplate: "tailpipe://plugins/{name}",
+  name: "plugin",
+  type: "Plugin",
+  mimeType: "application/json",
+  description: "Details of an installed Tailpipe plugin, including its version and the tables it provides, from tailpipe plugin show.",
+  handler: async (_db, variables, uri) => readCliResource('plugin', variables.name, uri)
+};
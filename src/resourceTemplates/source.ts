@@ -0,0 +1,11 @@
+import type { ResourceTemplate } from "../types/resourceTemplate.js";
+import { readCliResource } from "./cli.js";
+
+export const resourceTemplate: ResourceTemplate = {
+  uriTemplate: "tailpipe://sources/{name}",
+  name: "source",
+  type: "Source",
+  mimeType: "application/json",
+  description: "Configuration of a Tailpipe source, from tailpipe source show.",
+  handler: async (_db, variables, uri) => readCliResource('source', variables.name, uri)
+};
@@ -0,0 +1,42 @@
+import { logger } from '../services/logger.js';
+import { describeCatalogTable, withSchemaFallback } from '../services/catalog.js';
+import { executeCommand } from '../utils/command.js';
+import { buildTailpipeCommand, getTailpipeEnv } from '../utils/tailpipe.js';
+import { stringifyResponse } from '../utils/format.js';
+import type { ResourceTemplate } from "../types/resourceTemplate.js";
+
+// Table names are identifiers, optionally qualified with a schema
+const TABLE_NAME = /^[\w.]+$/;
+
+export const resourceTemplate: ResourceTemplate = {
+  uriTemplate: "tailpipe://tables/{name}",
+  name: "table",
+  type: "Table",
+  mimeType: "application/json",
+  description: "Schema of a Tailpipe table: its columns, their types and descriptions. Read from the Tailpipe CLI, or from the live DuckDB session when the CLI is unavailable.",
+  handler: async (db, variables, uri) => {
+    logger.debug('Handling table resource request');
+
+    const { name } = variables;
+    if (!TABLE_NAME.test(name)) {
+      throw new Error(`Invalid table name: ${name}`);
+    }
+
+    const cmd = buildTailpipeCommand(`table show ${name}`, { output: 'json' });
+    const { result: table, source, fallback_reason } = await withSchemaFallback<unknown>('cli', async from =>
+      from === 'cli'
+        ? JSON.parse(executeCommand(cmd, { env: getTailpipeEnv() }))
+        : describeCatalogTable(db, name)
+    );
+
+    return {
+      contents: [
+        {
+          uri,
+          mimeType: "application/json",
+          text: stringifyResponse({ table, source, ...(fallback_reason && { fallback_reason }) })
+        }
+      ]
+    };
+  }
+};
@@ -0,0 +1,24 @@
+import { logger } from '../services/logger.js';
+import { queryHistory } from '../services/queryHistory.js';
+import type { Resource } from "../types/resource.js";
+import { stringifyResponse } from '../utils/format.js';
+
+export const resource: Resource = {
+  uri: "tailpipe://history",
+  name: "history",
+  type: "History",
+  description: "Queries run with tailpipe_query in this session, newest first, including SQL, params, duration, row count and errors.",
+  handler: async (): Promise<any> => {
+    logger.debug('Handling history resource request');
+
+    return {
+      contents: [
+        {
+          uri: "tailpipe://history",
+          mimeType: "application/json",
+          text: stringifyResponse({ history: queryHistory.list() })
+        }
+      ]
+    };
+  }
+};
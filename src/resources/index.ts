@@ -1,13 +1,17 @@
-import { ListResourcesRequestSchema, ReadResourceRequestSchema } from "@modelcontextprotocol/sdk/types.js";
+import { ListResourcesRequestSchema, ReadResourceRequestSchema, SubscribeRequestSchema, UnsubscribeRequestSchema } from "@modelcontextprotocol/sdk/types.js";
 import type { Server } from "@modelcontextprotocol/sdk/server/index.js";
 import { DatabaseService } from "../services/database.js";
 import { resource as statusResource } from "./status.js";
+import { resource as historyResource } from "./history.js";
+import { readTemplatedResource } from "../resourceTemplates/index.js";
+import { SchemaMonitor } from "../services/schemaMonitor.js";
 import { logger } from '../services/logger.js';
 import type { Resource } from "../types/resource.js";
 
 // Register all available resources
 const resources: Resource[] = [
-  statusResource
+  statusResource,
+  historyResource
 ];
 
 // Export resources for server capabilities
@@ -22,6 +26,28 @@ export const resourceCapabilities = {
   )
 };
 
+// URIs clients have subscribed to
+const subscriptions = new Set<string>();
+
+// Resources that describe the schema, and so may read differently after it changes
+const SCHEMA_RESOURCE_PREFIXES = ['tailpipe://tables/', 'tailpipe://partitions/'];
+
+/**
+ * Tells clients the resource list has changed and every subscribed table or
+ * partition resource may read differently, after the schema changed
+ */
+function notifySchemaChange(server: Server): void {
+  const logFailure = (error: unknown) =>
+    logger.debug('Failed to send resource notification:', error instanceof Error ? error.message : String(error));
+
+  server.sendResourceListChanged().catch(logFailure);
+  for (const uri of subscriptions) {
+    if (SCHEMA_RESOURCE_PREFIXES.some(prefix => uri.startsWith(prefix))) {
+      server.sendResourceUpdated({ uri }).catch(logFailure);
+    }
+  }
+}
+
 export function setupResourceHandlers(server: Server, db: DatabaseService) {
   // Register resource list handler
   server.setRequestHandler(ListResourcesRequestSchema, async () => {
@@ -46,11 +72,30 @@ export function setupResourceHandlers(server: Server, db: DatabaseService) {
 
     // Find matching resource
     const resource = resources.find(r => r.uri === uri);
-    if (!resource) {
+    if (resource) {
+      return resource.handler(db);
+    }
+
+    // Fall back to the resource templates, e.g. tailpipe://tables/{name}
+    const templated = await readTemplatedResource(db, uri);
+    if (!templated) {
       throw new Error(`Unknown resource: ${uri}`);
     }
+    return templated;
+  });
 
-    // Handle the resource request
-    return resource.handler(db);
+  // Register resource subscription handlers
+  server.setRequestHandler(SubscribeRequestSchema, async (request) => {
+    subscriptions.add(request.params.uri);
+    return {};
   });
+
+  server.setRequestHandler(UnsubscribeRequestSchema, async (request) => {
+    subscriptions.delete(request.params.uri);
+    return {};
+  });
+
+  // Watch the schema so clients can refresh resources built from it
+  const monitor = new SchemaMonitor(db, () => notifySchemaChange(server));
+  void monitor.start();
 } 
\ No newline at end of file
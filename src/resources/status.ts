@@ -9,7 +9,7 @@ export const resource: Resource = {
   uri: "tailpipe://status",
   name: "status",
   type: "Status",
-  description: "Server status information including init script path, Tailpipe version, and uptime.",
+  description: "Server status information including init script path, connection pool usage, init script reloads, Tailpipe version, and uptime.",
   handler: async (db: DatabaseService): Promise<any> => {
     logger.debug('Handling status resource request');
     
@@ -32,6 +32,9 @@ export const resource: Resource = {
       tailpipeVersion = 'Not installed or failed to run';
     }
     
+    // Read pool usage before the connection test borrows a connection
+    const pool = db.poolStats;
+
     // Get connection status
     let connectionStatus = "unknown";
     try {
@@ -45,7 +48,10 @@ export const resource: Resource = {
     const content = {
       database: {
         init_script_path: initScriptPath,
-        connection_status: connectionStatus
+        connection_status: connectionStatus,
+        pool,
+        watching_init_script: db.watchingInitScript,
+        ...(db.reloadStatus && { last_reload: db.reloadStatus })
       },
       tailpipe: {
         version: tailpipeVersion
@@ -0,0 +1,204 @@
+/**
+ * Introspection of the live DuckDB session's schema
+ *
+ * Tables and columns are read from information_schema.columns, and
+ * duckdb_views() tells views apart from tables and supplies their comments.
+ * This answers schema questions without the Tailpipe CLI, for example when
+ * the server was started with an explicit init script path.
+ */
+
+import { createHash } from "node:crypto";
+import type { DatabaseService } from "./database.js";
+import { logger } from "./logger.js";
+import { suggestNames } from "../utils/suggest.js";
+import { qualifiedTableName } from "../utils/sql.js";
+
+export type SchemaSource = 'cli' | 'duckdb';
+
+export const SCHEMA_SOURCES: SchemaSource[] = ['cli', 'duckdb'];
+
+export interface CatalogColumn {
+  name: string;
+  type: string;
+  nullable: boolean;
+}
+
+export interface CatalogTable {
+  name: string;
+  catalog: string;
+  schema: string;
+  type: 'table' | 'view';
+  description?: string;
+  column_count: number;
+  // Only counted when asked for, since it can mean reading every file
+  row_count?: number;
+}
+
+export interface CatalogTableDetails extends Omit<CatalogTable, 'column_count'> {
+  columns: CatalogColumn[];
+}
+
+// Catalog rows for user tables and views, leaving out DuckDB's own schemas
+const CATALOG_COLUMNS_SQL = `
+  SELECT c.table_catalog, c.table_schema, c.table_name, c.column_name, c.data_type, c.is_nullable,
+         v.view_name IS NOT NULL AS is_view, v.comment
+  FROM information_schema.columns c
+  LEFT JOIN duckdb_views() v
+    ON v.database_name = c.table_catalog AND v.schema_name = c.table_schema AND v.view_name = c.table_name
+  WHERE c.table_catalog <> 'system' AND c.table_schema NOT IN ('information_schema', 'pg_catalog')`;
+
+function qualifiedName(row: Record<string, any>): string {
+  return qualifiedTableName({ catalog: row.table_catalog, schema: row.table_schema, name: row.table_name });
+}
+
+async function countRows(db: DatabaseService, row: Record<string, any>, signal?: AbortSignal): Promise<number> {
+  const [result] = await db.executeQuery(`SELECT count(*) AS row_count FROM ${qualifiedName(row)}`, [], { signal });
+  return Number(result.row_count);
+}
+
+/**
+ * List the tables and views in the session, sorted by name
+ * @param db The database service
+ * @param options rowCounts counts the rows of every table
+ */
+export async function listCatalogTables(db: DatabaseService, options: { rowCounts?: boolean; signal?: AbortSignal } = {}): Promise<CatalogTable[]> {
+  const rows = await db.executeQuery(
+    `${CATALOG_COLUMNS_SQL}
+     ORDER BY c.table_name, c.table_schema, c.ordinal_position`,
+    [],
+    { signal: options.signal }
+  );
+
+  const tables = new Map<string, { row: Record<string, any>; table: CatalogTable }>();
+  for (const row of rows) {
+    const key = qualifiedName(row);
+    const entry = tables.get(key);
+    if (entry) {
+      entry.table.column_count++;
+      continue;
+    }
+    tables.set(key, {
+      row,
+      table: {
+        name: row.table_name,
+        catalog: row.table_catalog,
+        schema: row.table_schema,
+        type: row.is_view ? 'view' : 'table',
+        ...(row.comment && { description: row.comment }),
+        column_count: 1
+      }
+    });
+  }
+
+  const result: CatalogTable[] = [];
+  for (const { row, table } of tables.values()) {
+    result.push(options.rowCounts ? { ...table, row_count: await countRows(db, row, options.signal) } : table);
+  }
+  return result;
+}
+
+/**
+ * List every column of every table and view in the session, in table order
+ * @param db The database service
+ * @returns The columns, each with the name, catalog and schema of its table
+ */
+export async function listCatalogColumns(db: DatabaseService, options: { signal?: AbortSignal } = {}): Promise<Array<CatalogColumn & { table: string; catalog: string; schema: string }>> {
+  const rows = await db.executeQuery(
+    `${CATALOG_COLUMNS_SQL}
+     ORDER BY c.table_name, c.table_schema, c.ordinal_position`,
+    [],
+    { signal: options.signal }
+  );
+
+  return rows.map(row => ({
+    table: row.table_name,
+    catalog: row.table_catalog,
+    schema: row.table_schema,
+    name: row.column_name,
+    type: row.data_type,
+    nullable: row.is_nullable === 'YES'
+  }));
+}
+
+/**
+ * Describe a table or view in the session. Names are matched without regard
+ * to case; when several schemas have a table of that name the first one in
+ * schema order is used.
+ * @param db The database service
+ * @param name The table name
+ * @param options rowCount counts the table's rows
+ * @throws Error naming similar tables if there is no table with that name
+ */
+export async function describeCatalogTable(db: DatabaseService, name: string, options: { rowCount?: boolean; signal?: AbortSignal } = {}): Promise<CatalogTableDetails> {
+  const rows = await db.executeQuery(
+    `${CATALOG_COLUMNS_SQL}
+       AND lower(c.table_name) = lower(?)
+     ORDER BY c.table_catalog, c.table_schema, c.ordinal_position`,
+    [name],
+    { signal: options.signal }
+  );
+
+  if (rows.length === 0) {
+    const tables = await listCatalogTables(db, { signal: options.signal });
+    const suggestions = suggestNames(name, tables.map(table => table.name));
+    throw new Error(`Table not found: ${name}.${suggestions.length > 0 ? ` Did you mean ${suggestions.map(s => `"${s}"`).join(', ')}?` : ''}`);
+  }
+
+  const [first] = rows;
+  const columns = rows
+    .filter(row => row.table_catalog === first.table_catalog && row.table_schema === first.table_schema)
+    .map(row => ({ name: row.column_name, type: row.data_type, nullable: row.is_nullable === 'YES' }));
+
+  return {
+    name: first.table_name,
+    catalog: first.table_catalog,
+    schema: first.table_schema,
+    type: first.is_view ? 'view' : 'table',
+    ...(first.comment && { description: first.comment }),
+    columns,
+    ...(options.rowCount && { row_count: await countRows(db, first, options.signal) })
+  };
+}
+
+/**
+ * Fingerprint the session's schema: every table and view with its columns and
+ * types, plus the SQL of each view, which changes when Tailpipe adds
+ * partitions or files behind a view
+ * @param db The database service
+ * @returns A hash that changes whenever the schema does
+ */
+export async function schemaFingerprint(db: DatabaseService, options: { signal?: AbortSignal } = {}): Promise<string> {
+  const columns = await db.executeQuery(
+    `${CATALOG_COLUMNS_SQL}
+     ORDER BY c.table_catalog, c.table_schema, c.table_name, c.ordinal_position`,
+    [],
+    { signal: options.signal }
+  );
+  const views = await db.executeQuery(
+    `SELECT database_name, schema_name, view_name, sql FROM duckdb_views() WHERE NOT internal
+     ORDER BY database_name, schema_name, view_name`,
+    [],
+    { signal: options.signal }
+  );
+
+  return createHash('sha256').update(JSON.stringify([columns, views])).digest('hex').slice(0, 16);
+}
+
+/**
+ * Answer a schema question from the preferred source, falling back to the
+ * other source when the preferred one fails
+ * @param prefer The source to try first
+ * @param answer Answers the question from the given source
+ * @returns The answer, the source that gave it and, after a fallback, why the preferred source failed
+ * @throws The fallback source's error when both fail
+ */
+export async function withSchemaFallback<T>(prefer: SchemaSource, answer: (source: SchemaSource) => Promise<T>): Promise<{ result: T; source: SchemaSource; fallback_reason?: string }> {
+  try {
+    return { result: await answer(prefer), source: prefer };
+  } catch (error) {
+    const reason = error instanceof Error ? error.message : String(error);
+    const other: SchemaSource = prefer === 'cli' ? 'duckdb' : 'cli';
+    logger.warn(`Schema lookup through ${prefer} failed, falling back to ${other}:`, reason);
+    return { result: await answer(other), source: other, fallback_reason: reason };
+  }
+}
@@ -0,0 +1,228 @@
+/**
+ * Fixed-size pool of database connections
+ *
+ * Connections are created on demand up to the pool size. When every
+ * connection is in use, callers wait in a first-in, first-out queue and are
+ * handed connections in the order they asked for them.
+ */
+
+/**
+ * Raised when a connection is requested from, or was being waited for on, a
+ * pool that has been closed
+ */
+export class PoolClosedError extends Error {
+  constructor() {
+    super('Connection pool is closed');
+    this.name = 'PoolClosedError';
+  }
+}
+
+export interface PoolStats {
+  size: number;
+  // Connections handed out and not yet released
+  active: number;
+  idle: number;
+  // Callers queued for a connection
+  waiting: number;
+}
+
+interface ConnectionPoolOptions<T> {
+  size: number;
+  // Opens and bootstraps a new connection
+  create: () => Promise<T>;
+  destroy: (connection: T) => void;
+}
+
+interface Waiter<T> {
+  resolve: (connection: T) => void;
+  reject: (error: Error) => void;
+  cleanup: () => void;
+}
+
+export class ConnectionPool<T> {
+  private idle: T[] = [];
+  private active = new Set<T>();
+  private waiters: Waiter<T>[] = [];
+  private creating = 0;
+  private closed = false;
+  private onDrained?: () => void;
+  private options: ConnectionPoolOptions<T>;
+
+  /**
+   * @param options Pool size and how to create and destroy connections
+   * @param connections Connections that are already open, added to the pool as idle
+   */
+  constructor(options: ConnectionPoolOptions<T>, connections: T[] = []) {
+    this.options = { ...options, size: Math.max(options.size, 1) };
+    this.idle = [...connections];
+  }
+
+  get stats(): PoolStats {
+    return {
+      size: this.options.size,
+      active: this.active.size,
+      idle: this.idle.length,
+      waiting: this.waiters.length
+    };
+  }
+
+  /**
+   * Get a connection, waiting for one to be released when the pool is full
+   * @param signal Stops waiting when aborted, rejecting with the signal's reason
+   * @throws PoolClosedError if the pool is closed before a connection is available
+   */
+  async acquire(signal?: AbortSignal): Promise<T> {
+    if (this.closed) {
+      throw new PoolClosedError();
+    }
+    signal?.throwIfAborted();
+
+    const idle = this.idle.pop();
+    if (idle) {
+      this.active.add(idle);
+      return idle;
+    }
+
+    if (this.active.size + this.creating < this.options.size) {
+      return this.create();
+    }
+
+    return new Promise<T>((resolve, reject) => {
+      const onAbort = () => {
+        this.waiters = this.waiters.filter(entry => entry !== waiter);
+        reject(signal!.reason);
+      };
+      const waiter: Waiter<T> = {
+        resolve,
+        reject,
+        cleanup: () => signal?.removeEventListener('abort', onAbort)
+      };
+      signal?.addEventListener('abort', onAbort, { once: true });
+      this.waiters.push(waiter);
+    });
+  }
+
+  private async create(): Promise<T> {
+    this.creating++;
+    let connection: T;
+    try {
+      connection = await this.options.create();
+    } catch (error) {
+      this.creating--;
+      // The failed slot is free again, so the next caller in line tries to open it
+      const waiter = this.waiters.shift();
+      if (waiter) {
+        waiter.cleanup();
+        this.create().then(waiter.resolve, waiter.reject);
+      }
+      this.checkDrained();
+      throw error;
+    }
+    this.creating--;
+
+    if (this.closed) {
+      this.options.destroy(connection);
+      this.checkDrained();
+      throw new PoolClosedError();
+    }
+
+    this.active.add(connection);
+    return connection;
+  }
+
+  /**
+   * Return a connection to the pool, handing it to the longest waiting caller
+   */
+  release(connection: T): void {
+    if (!this.active.delete(connection)) {
+      return;
+    }
+
+    if (this.closed) {
+      this.options.destroy(connection);
+      this.checkDrained();
+      return;
+    }
+
+    const waiter = this.waiters.shift();
+    if (waiter) {
+      waiter.cleanup();
+      this.active.add(connection);
+      waiter.resolve(connection);
+      return;
+    }
+
+    this.idle.push(connection);
+  }
+
+  /**
+   * Take a connection that is in use out of the pool and destroy it, for
+   * example because the query running on it was abandoned. Its slot is
+   * opened again, for the longest waiting caller if there is one.
+   */
+  discard(connection: T): void {
+    if (!this.active.delete(connection)) {
+      return;
+    }
+
+    this.options.destroy(connection);
+    if (this.closed) {
+      this.checkDrained();
+      return;
+    }
+
+    const waiter = this.waiters.shift();
+    if (waiter) {
+      waiter.cleanup();
+      this.create().then(waiter.resolve, waiter.reject);
+    }
+  }
+
+  /**
+   * Run a function with a connection, releasing it when the function settles
+   */
+  async use<R>(fn: (connection: T) => Promise<R>, signal?: AbortSignal): Promise<R> {
+    const connection = await this.acquire(signal);
+    try {
+      return await fn(connection);
+    } finally {
+      this.release(connection);
+    }
+  }
+
+  private checkDrained(): void {
+    if (this.active.size === 0 && this.creating === 0) {
+      this.onDrained?.();
+    }
+  }
+
+  /**
+   * Close the pool. Queued callers are rejected and idle connections are
+   * destroyed straight away; connections in use are destroyed as they are
+   * released, or immediately when force is set.
+   * @param force Destroy connections that are still in use
+   * @returns A promise that resolves once every connection has been destroyed
+   */
+  close(force: boolean = false): Promise<void> {
+    this.closed = true;
+
+    for (const waiter of this.waiters.splice(0)) {
+      waiter.cleanup();
+      waiter.reject(new PoolClosedError());
+    }
+    for (const connection of this.idle.splice(0)) {
+      this.options.destroy(connection);
+    }
+    if (force) {
+      for (const connection of this.active) {
+        this.options.destroy(connection);
+      }
+      this.active.clear();
+    }
+
+    return new Promise(resolve => {
+      this.onDrained = resolve;
+      this.checkDrained();
+    });
+  }
+}
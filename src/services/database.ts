@@ -1,11 +1,13 @@
 import { execSync } from "child_process";
 import { resolve } from "path";
-import { existsSync, readFileSync } from "fs";
+import { existsSync, readFileSync, statSync } from "fs";
 import { logger } from "./logger.js";
 import duckdb from 'duckdb';
 import { executeCommand } from "../utils/command.js";
-import nodeSqlParser from "node-sql-parser";
 import { buildTailpipeCommand, getTailpipeEnv } from "../utils/tailpipe.js";
+import { sqlParser, parserOptions } from "../utils/sql.js";
+import { ConnectionPool, PoolClosedError, type PoolStats } from "./connectionPool.js";
+import { watchFile } from "./fileWatcher.js";
 
 // Define types for DuckDB callback parameters
 type DuckDBError = Error | null;
@@ -24,9 +26,109 @@ export interface InitScriptInfo {
   sourceType: DatabaseSourceType;
 }
 
-const { Parser } = nodeSqlParser as typeof import("node-sql-parser");
-const sqlParser = new Parser();
-const parserOptions = { database: 'Postgresql' as const };
+export interface QueryOptions {
+  // Timeout in milliseconds, 0 disables the timeout. Defaults to QUERY_TIMEOUT_MS.
+  timeoutMs?: number;
+  // Signal used to cancel the query, e.g. from an MCP cancellation notification
+  signal?: AbortSignal;
+  // Called after each chunk of rows is fetched from the streaming result
+  onProgress?: (progress: QueryProgress) => void;
+}
+
+export interface QueryProgress {
+  // Rows fetched so far
+  rows: number;
+  // Time since the query started
+  elapsedMs: number;
+}
+
+export interface QueryColumn {
+  name: string;
+  // DuckDB logical type, e.g. VARCHAR, TIMESTAMP WITH TIME ZONE or STRUCT(...)
+  type: string;
+}
+
+export type QueryCancelReason = 'timeout' | 'cancelled';
+
+/**
+ * Raised when a query is stopped before it completes, either because it ran
+ * past its timeout or because the caller cancelled it.
+ */
+export class QueryCancelledError extends Error {
+  readonly reason: QueryCancelReason;
+
+  constructor(reason: QueryCancelReason, message: string) {
+    super(message);
+    this.name = 'QueryCancelledError';
+    this.reason = reason;
+  }
+}
+
+// Default query timeout (5 minutes)
+const DEFAULT_QUERY_TIMEOUT_MS = 5 * 60 * 1000;
+
+export const QUERY_TIMEOUT_MS = process.env.TAILPIPE_MCP_QUERY_TIMEOUT_MS
+  ? parseInt(process.env.TAILPIPE_MCP_QUERY_TIMEOUT_MS, 10)
+  : DEFAULT_QUERY_TIMEOUT_MS;
+
+// Rows are collected in chunks of one DuckDB vector
+const STREAM_CHUNK_SIZE = 2048;
+
+// Default number of connections in the pool
+const DEFAULT_POOL_SIZE = 4;
+
+export const POOL_SIZE = process.env.TAILPIPE_MCP_POOL_SIZE
+  ? parseInt(process.env.TAILPIPE_MCP_POOL_SIZE, 10)
+  : DEFAULT_POOL_SIZE;
+
+// Default number of abandoned queries allowed to keep running in the background
+// after their connection's slot has been handed to the next query
+const DEFAULT_MAX_ABANDONED_QUERIES = 2;
+
+export const MAX_ABANDONED_QUERIES = process.env.TAILPIPE_MCP_MAX_ABANDONED_QUERIES
+  ? parseInt(process.env.TAILPIPE_MCP_MAX_ABANDONED_QUERIES, 10)
+  : DEFAULT_MAX_ABANDONED_QUERIES;
+
+// Default time the init script must be unchanged before it is reloaded (1 second)
+const DEFAULT_WATCH_DEBOUNCE_MS = 1000;
+
+export const WATCH_DEBOUNCE_MS = process.env.TAILPIPE_MCP_WATCH_DEBOUNCE_MS
+  ? parseInt(process.env.TAILPIPE_MCP_WATCH_DEBOUNCE_MS, 10)
+  : DEFAULT_WATCH_DEBOUNCE_MS;
+
+/**
+ * Outcome of the last reload of a changed init script
+ */
+export interface ReloadStatus {
+  status: 'reloaded' | 'failed';
+  init_script_path: string;
+  time: string;
+  // Why the script failed; the previous session is still in use
+  error?: string;
+}
+
+interface Session {
+  db: duckdb.Database;
+  pool: ConnectionPool<duckdb.Connection>;
+}
+
+/**
+ * A single pooled connection, for work that must see its own session state,
+ * such as a batch that defines a temporary macro and then uses it
+ */
+export interface QuerySession {
+  executeQuery(sql: string, params?: any[], options?: QueryOptions): Promise<any[]>;
+  describeQuery(sql: string): Promise<QueryColumn[]>;
+}
+
+/**
+ * Whether an init script statement sets up per-connection state, which has to
+ * be repeated on every pooled connection. Views, tables and attached
+ * databases belong to the database and are shared by all its connections.
+ */
+function isSessionStatement(statement: string): boolean {
+  return /^\s*(SET|RESET|PRAGMA|LOAD|USE)\b|^\s*CREATE\s+(OR\s+REPLACE\s+)?TEMP(ORARY)?\b/i.test(statement);
+}
 
 export function parseSqlStatements(script: string): string[] {
   const trimmedScript = script.trim();
@@ -57,9 +159,25 @@ export function parseSqlStatements(script: string): string[] {
 
 export class DatabaseService {
   private db: duckdb.Database | null = null;
-  private connection: duckdb.Connection | null = null;
+  private pool: ConnectionPool<duckdb.Connection> | null = null;
   private config: DatabaseConfig;
-  private isConnecting: boolean = false;
+  // Set while a session is being built or reloaded, so concurrent callers
+  // wait for it and no two sessions are built at once
+  private connecting: Promise<void> | null = null;
+  // Called after each new session is built
+  private sessionListeners: Array<() => void> = [];
+  // Counts the sessions built so far, so each one has its own fingerprint
+  private sessions = 0;
+  // Reloads run one after another, so the last change to the script wins
+  private reloads: Promise<boolean> = Promise.resolve(false);
+  private lastReload: ReloadStatus | null = null;
+  // Set while the init script is watched
+  private watch: { debounceMs: number; stop: () => void } | null = null;
+  // Connections whose query was abandoned after a timeout or cancellation,
+  // with a promise that settles once DuckDB has finished running it
+  private abandoned = new WeakMap<duckdb.Connection, Promise<void>>();
+  // Abandoned queries still running on connections that have left the pool
+  private runaway = 0;
 
   private constructor(config: DatabaseConfig) {
     this.config = config;
@@ -73,6 +191,38 @@ export class DatabaseService {
     return this.config.sourceType;
   }
 
+  /**
+   * Connection pool usage, all zero counts while no session is open
+   */
+  get poolStats(): PoolStats {
+    return this.pool?.stats ?? { size: POOL_SIZE, active: 0, idle: 0, waiting: 0 };
+  }
+
+  /**
+   * Outcome of the last reload after the init script changed, if any
+   */
+  get reloadStatus(): ReloadStatus | null {
+    return this.lastReload;
+  }
+
+  get watchingInitScript(): boolean {
+    return this.watch !== null;
+  }
+
+  /**
+   * Identifies the init script, its current version (path plus modification
+   * time) and the session built from it, so cached results can be tied to
+   * them. The script can change before the session is rebuilt from it, so
+   * capture the fingerprint before running the query whose result it keys.
+   */
+  get initScriptFingerprint(): string {
+    try {
+      return `${this.config.initScriptPath}@${statSync(this.config.initScriptPath).mtimeMs}#${this.sessions}`;
+    } catch {
+      return `${this.config.initScriptPath}#${this.sessions}`;
+    }
+  }
+
   /**
    * Create a new DatabaseService instance and initialize the connection
    */
@@ -161,19 +311,24 @@ export class DatabaseService {
   }
 
   /**
-   * Initialize the database connection
+   * Initialize the database connection. Callers arriving while the session is
+   * being built wait for the same attempt.
    */
   async initialize(): Promise<void> {
-    if (this.isConnecting) {
-      throw new Error('Database connection already in progress');
-    }
-    
-    try {
-      this.isConnecting = true;
-      await this.connect();
-    } finally {
-      this.isConnecting = false;
+    if (!this.connecting) {
+      this.connecting = this.connect().finally(() => {
+        this.connecting = null;
+      });
     }
+    return this.connecting;
+  }
+
+  /**
+   * Register a listener called whenever a new session has been built, for
+   * example after tailpipe_connect switches to another init script
+   */
+  onSessionChange(listener: () => void): void {
+    this.sessionListeners.push(listener);
   }
 
   /**
@@ -192,93 +347,399 @@ export class DatabaseService {
   }
 
   async setDatabaseConfig(newConfig: Partial<DatabaseConfig>): Promise<void> {
+    // Let a session being built from the old config finish before replacing
+    // it. Loops because a reload can start while one is waited for, and the
+    // config must change in the same tick the wait ends.
+    while (this.connecting) {
+      await this.connecting.catch(() => undefined);
+    }
     this.config = {
       ...this.config,
       ...newConfig
     };
+    if (this.watch) {
+      this.watchInitScript(this.watch.debounceMs);
+    }
     await this.initialize();
     await this.testConnection();
   }
 
+  /**
+   * Watch the init script and reload the session whenever it changes, for
+   * example when collections make the Tailpipe CLI rewrite it
+   * @param debounceMs How long the script must be unchanged before it is reloaded
+   */
+  watchInitScript(debounceMs: number = WATCH_DEBOUNCE_MS): void {
+    this.unwatchInitScript();
+    logger.info(`Watching init script for changes: ${this.config.initScriptPath}`);
+    this.watch = {
+      debounceMs,
+      stop: watchFile(this.config.initScriptPath, debounceMs, () => {
+        void this.reload();
+      })
+    };
+  }
+
+  unwatchInitScript(): void {
+    this.watch?.stop();
+    this.watch = null;
+  }
+
+  /**
+   * Rebuild the session from the init script in the background and swap it
+   * in. New queries go to the new session straight away, while queries
+   * already running finish on the old one before it is closed. If the script
+   * fails, the old session is kept and the failure is recorded in reloadStatus.
+   * @returns Whether the new session was swapped in
+   */
+  reload(): Promise<boolean> {
+    this.reloads = this.reloads.then(() => this.rebuild());
+    return this.reloads;
+  }
+
+  private async rebuild(): Promise<boolean> {
+    // Let a session being built by connect() finish first, then hold off
+    // connect() and config changes until the new session is swapped in
+    while (this.connecting) {
+      await this.connecting.catch(() => undefined);
+    }
+    const rebuilding = this.swapInSession();
+    this.connecting = rebuilding.then(() => undefined).finally(() => {
+      this.connecting = null;
+    });
+    return rebuilding;
+  }
+
+  private async swapInSession(): Promise<boolean> {
+    const initScriptPath = this.config.initScriptPath;
+    let session: Session;
+    try {
+      session = await this.openSession(initScriptPath);
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error);
+      logger.error(`Failed to reload init script, keeping the current session: ${message}`);
+      this.lastReload = { status: 'failed', init_script_path: initScriptPath, time: new Date().toISOString(), error: message };
+      return false;
+    }
+
+    const { db, pool } = this;
+    this.db = session.db;
+    this.pool = session.pool;
+    this.lastReload = { status: 'reloaded', init_script_path: initScriptPath, time: new Date().toISOString() };
+    logger.info(`Reloaded init script: ${initScriptPath}`);
+    this.sessions++;
+    this.sessionListeners.forEach(listener => listener());
+
+    this.closeSession(db, pool).catch(() => undefined);
+    return true;
+  }
+
   private async connect(): Promise<void> {
     // Clean up any existing connections
     await this.close();
-      
+
+    const { db, pool } = await this.openSession(this.config.initScriptPath);
+    this.pool = pool;
+    this.db = db;
+    this.sessions++;
+    this.sessionListeners.forEach(listener => listener());
+  }
+
+  /**
+   * Build a new session from an init script, without touching the current one
+   */
+  private async openSession(initScriptPath: string): Promise<Session> {
+    let db: duckdb.Database | null = null;
     try {
-      logger.debug(`Initializing DuckDB with init script: ${this.config.initScriptPath}`);
+      logger.debug(`Initializing DuckDB with init script: ${initScriptPath}`);
       // Use in-memory database and execute init script to bootstrap session
-      this.db = new duckdb.Database(':memory:');
-      this.connection = this.db.connect();
+      db = new duckdb.Database(':memory:');
+      const connection = db.connect();
 
       // Read and execute the init script sequentially
-      const script = readFileSync(this.config.initScriptPath, 'utf8');
+      const script = readFileSync(initScriptPath, 'utf8');
       const statements = parseSqlStatements(script);
-
-      for (const statement of statements) {
-        await new Promise<void>((resolve, reject) => {
-          this.connection!.run(statement, (err: DuckDBError) => {
-            if (err) return reject(err);
-            resolve();
-          });
-        });
-      }
+      await this.runStatements(connection, statements);
+
+      // Further connections only need the statements that set up session state
+      const sessionStatements = statements.filter(isSessionStatement);
+      const database = db;
+      const pool = new ConnectionPool<duckdb.Connection>({
+        size: POOL_SIZE,
+        create: async () => {
+          const pooled = database.connect();
+          try {
+            await this.runStatements(pooled, sessionStatements);
+          } catch (error) {
+            pooled.close();
+            throw error;
+          }
+          return pooled;
+        },
+        destroy: pooled => pooled.close()
+      }, [connection]);
+      return { db, pool };
     } catch (error) {
       const message = error instanceof Error ? error.message : String(error);
       logger.error(`Failed to initialize DuckDB with init script: ${message}`);
+      db?.close((err: DuckDBError) => {
+        if (err) {
+          logger.warn('Failed to close database after failed initialization:', err.message);
+        }
+      });
       throw error;
     }
   }
 
-  async executeQuery(sql: string, params: any[] = []): Promise<any[]> {
-    if (!this.connection) {
-      await this.initialize();
+  private async runStatements(connection: duckdb.Connection, statements: string[]): Promise<void> {
+    for (const statement of statements) {
+      await new Promise<void>((resolve, reject) => {
+        connection.run(statement, (err: DuckDBError) => {
+          if (err) return reject(err);
+          resolve();
+        });
+      });
     }
-    
-    return this.runQuery(sql, params);
   }
 
-  private async runQuery(sql: string, params: any[]): Promise<any[]> {
-    return new Promise((resolve, reject) => {
-      const queryFn = params.length > 0 ? 
-        (callback: any) => this.connection!.all(sql, params, callback) :
-        (callback: any) => this.connection!.all(sql, callback);
-        
-      queryFn((err: DuckDBError, rows: DuckDBRow[]) => {
-        if (err) {
-          reject(err);
+  /**
+   * Runs a function with a connection from the pool, building the session
+   * first if needed. When the pool is replaced while waiting, for example by
+   * a reconnect, the request moves to the new pool.
+   */
+  private async withConnection<T>(fn: (connection: duckdb.Connection) => Promise<T>, signal?: AbortSignal): Promise<T> {
+    for (;;) {
+      if (signal?.aborted) {
+        throw new QueryCancelledError('cancelled', 'Query cancelled before it started');
+      }
+      // A failed reload can leave no session after close(), so check again
+      while (!this.pool) {
+        await this.initialize();
+      }
+
+      const pool = this.pool!;
+      let connection: duckdb.Connection;
+      try {
+        connection = await pool.acquire(signal);
+      } catch (error) {
+        if (error instanceof PoolClosedError) {
+          continue;
+        }
+        if (signal?.aborted) {
+          throw new QueryCancelledError('cancelled', 'Query cancelled while waiting for a connection');
+        }
+        throw error;
+      }
+
+      try {
+        return await fn(connection);
+      } finally {
+        const running = this.abandoned.get(connection);
+        if (running) {
+          this.abandoned.delete(connection);
+          this.retire(pool, connection, running);
         } else {
-          resolve(rows || []);
+          pool.release(connection);
         }
+      }
+    }
+  }
+
+  /**
+   * Take the connection of an abandoned query out of the pool. Its slot is
+   * opened again straight away unless too many abandoned queries are still
+   * running, in which case the slot is held until this one finishes, so
+   * runaway scans cannot pile up without limit.
+   */
+  private retire(pool: ConnectionPool<duckdb.Connection>, connection: duckdb.Connection, running: Promise<void>): void {
+    if (this.runaway < MAX_ABANDONED_QUERIES) {
+      this.runaway++;
+      pool.discard(connection);
+      void running.finally(() => {
+        this.runaway--;
       });
+      return;
+    }
+
+    logger.warn(`${this.runaway} abandoned queries are still running, holding a connection until its query finishes`);
+    void running.finally(() => pool.discard(connection));
+  }
+
+  async executeQuery(sql: string, params: any[] = [], options: QueryOptions = {}): Promise<any[]> {
+    return this.withConnection(connection => this.runQuery(connection, sql, params, options), options.signal);
+  }
+
+  /**
+   * Get the result columns of a query without running it. Columns are read
+   * from the prepared statement, falling back to DESCRIBE for statements that
+   * cannot be prepared.
+   */
+  async describeQuery(sql: string): Promise<QueryColumn[]> {
+    return this.withConnection(connection => this.describeOn(connection, sql));
+  }
+
+  /**
+   * Run a function with one connection held for its whole duration, so
+   * session state set by one statement is visible to the next
+   * @param fn Receives a session bound to the held connection
+   * @param signal Stops waiting for a connection when aborted
+   */
+  async withSession<T>(fn: (session: QuerySession) => Promise<T>, signal?: AbortSignal): Promise<T> {
+    return this.withConnection(connection => fn({
+      executeQuery: (sql, params = [], options = {}) => this.runQuery(connection, sql, params, options),
+      describeQuery: sql => this.describeOn(connection, sql)
+    }), signal);
+  }
+
+  private async describeOn(connection: duckdb.Connection, sql: string): Promise<QueryColumn[]> {
+    try {
+      return await this.prepareColumns(connection, sql);
+    } catch (error) {
+      logger.debug('Failed to read columns from prepared statement, falling back to DESCRIBE:', error instanceof Error ? error.message : String(error));
+      const rows = await this.runQuery(connection, `DESCRIBE ${sql}`, [], {});
+      return rows.map(row => ({ name: row.column_name, type: row.column_type }));
+    }
+  }
+
+  private async prepareColumns(connection: duckdb.Connection, sql: string): Promise<QueryColumn[]> {
+    return new Promise((resolve, reject) => {
+      const statement = connection.prepare(sql, (err: DuckDBError) => {
+        if (err) return reject(err);
+
+        try {
+          const columns = statement.columns();
+          statement.finalize();
+          if (!columns) {
+            return reject(new Error('Statement does not return a result set'));
+          }
+          resolve(columns.map(column => ({ name: column.name, type: column.type.sql_type })));
+        } catch (error) {
+          reject(error);
+        }
+      });
+    });
+  }
+
+  private async runQuery(connection: duckdb.Connection, sql: string, params: any[], options: QueryOptions): Promise<any[]> {
+    const timeoutMs = options.timeoutMs ?? QUERY_TIMEOUT_MS;
+    const { signal } = options;
+
+    if (signal?.aborted) {
+      throw new QueryCancelledError('cancelled', 'Query cancelled before it started');
+    }
+
+    return new Promise((resolve, reject) => {
+      let settled = false;
+      let timer: NodeJS.Timeout | undefined;
+
+      const settle = (fn: () => void) => {
+        if (settled) return;
+        settled = true;
+        clearTimeout(timer);
+        signal?.removeEventListener('abort', onAbort);
+        fn();
+      };
+
+      // Once settled by a timeout or cancellation, stop pulling rows
+      const streaming = this.streamRows(connection, sql, params, options, () => settled);
+
+      // The DuckDB Node bindings cannot cancel a single statement, so the
+      // connection is abandoned: it is destroyed rather than returned to the
+      // pool, while other queries and the rest of the session carry on. The
+      // statement itself keeps running until it finishes.
+      const stop = (error: QueryCancelledError) => settle(() => {
+        logger.warn(error.message);
+        this.abandoned.set(connection, streaming.then(() => undefined, () => undefined));
+        reject(error);
+      });
+
+      const onAbort = () => stop(new QueryCancelledError('cancelled', 'Query cancelled by the client'));
+      signal?.addEventListener('abort', onAbort, { once: true });
+
+      if (timeoutMs > 0) {
+        timer = setTimeout(() => stop(new QueryCancelledError('timeout', `Query timed out after ${timeoutMs}ms`)), timeoutMs);
+      }
+
+      streaming.then(
+        rows => settle(() => resolve(rows)),
+        err => settle(() => reject(err))
+      );
     });
   }
 
+  /**
+   * Reads a query's result from DuckDB's streaming API chunk by chunk,
+   * reporting progress after each chunk. Stops reading as soon as
+   * isStopped() returns true.
+   */
+  private async streamRows(connection: duckdb.Connection, sql: string, params: any[], options: QueryOptions, isStopped: () => boolean): Promise<DuckDBRow[]> {
+    const startTime = Date.now();
+    const chunks: DuckDBRow[][] = [];
+    let chunk: DuckDBRow[] = [];
+    let rowCount = 0;
+
+    for await (const row of connection.stream(sql, ...params)) {
+      if (isStopped()) {
+        return [];
+      }
+
+      chunk.push(row);
+      if (chunk.length === STREAM_CHUNK_SIZE) {
+        chunks.push(chunk);
+        rowCount += chunk.length;
+        chunk = [];
+        options.onProgress?.({ rows: rowCount, elapsedMs: Date.now() - startTime });
+      }
+    }
+
+    if (chunk.length > 0) {
+      chunks.push(chunk);
+      rowCount += chunk.length;
+      options.onProgress?.({ rows: rowCount, elapsedMs: Date.now() - startTime });
+    }
+
+    return chunks.flat();
+  }
+
+  /**
+   * Close the session. New queries start a fresh session, while queries
+   * already running finish on the old one before it is closed.
+   */
   async close(): Promise<void> {
+    const db = this.db;
+    const pool = this.pool;
+    this.db = null;
+    this.pool = null;
+    await this.closeSession(db, pool);
+  }
+
+  /**
+   * Close a session once the queries running on it have finished
+   */
+  private async closeSession(db: duckdb.Database | null, pool: ConnectionPool<duckdb.Connection> | null): Promise<void> {
     const errors: Error[] = [];
-    
+
     try {
-      if (this.connection) {
-        logger.debug('Closing database connection');
-        this.connection.close();
-        this.connection = null;
+      if (pool) {
+        logger.debug('Closing database connections');
+        await pool.close();
       }
     } catch (error) {
       errors.push(error instanceof Error ? error : new Error(String(error)));
     }
-    
+
     try {
-      if (this.db) {
+      if (db) {
         logger.debug('Closing database');
-        await new Promise<void>((resolve) => this.db!.close(() => resolve()));
-        this.db = null;
+        await new Promise<void>((resolve) => db.close(() => resolve()));
       }
     } catch (error) {
       errors.push(error instanceof Error ? error : new Error(String(error)));
     }
-    
+
     if (errors.length > 0) {
       logger.error('Errors occurred while closing database:', errors);
       throw new AggregateError(errors, 'Failed to close database cleanly');
     }
   }
-}
\ No newline at end of file
+}
@@ -0,0 +1,44 @@
+/**
+ * Debounced watching of a single file
+ *
+ * The file's directory is watched rather than the file itself, so the watch
+ * survives the file being replaced through a rename, as happens when the
+ * Tailpipe CLI rewrites its init script. Bursts of events are collapsed into
+ * one call once the file has been quiet for the debounce interval.
+ */
+
+import { watch } from "fs";
+import { basename, dirname } from "path";
+import { logger } from "./logger.js";
+
+/**
+ * Watch a file for changes
+ * @param path The file to watch
+ * @param debounceMs How long the file must be quiet before onChange is called
+ * @param onChange Called after the file has changed
+ * @returns A function that stops watching
+ */
+export function watchFile(path: string, debounceMs: number, onChange: () => void): () => void {
+  const name = basename(path);
+  let timer: NodeJS.Timeout | undefined;
+
+  const watcher = watch(dirname(path), (_event, filename) => {
+    // Some platforms don't report the file name, so treat those events as a change
+    if (filename && filename.toString() !== name) {
+      return;
+    }
+    clearTimeout(timer);
+    timer = setTimeout(onChange, debounceMs);
+    timer.unref();
+  });
+  watcher.on('error', error => {
+    logger.warn(`Stopped watching ${path}:`, error.message);
+  });
+  // Don't keep the process alive just to watch the file
+  watcher.unref();
+
+  return () => {
+    clearTimeout(timer);
+    watcher.close();
+  };
+}
@@ -0,0 +1,142 @@
+/**
+ * In-memory LRU cache of query results
+ *
+ * Results are keyed by normalized SQL, parameter values and a fingerprint of
+ * the session and the init script it was built from, so a changed init script
+ * or a rebuilt session never serves stale results.
+ */
+
+import type { QueryColumn } from "./database.js";
+import { normalizeSql } from "../utils/sql.js";
+import { logger } from "./logger.js";
+
+// Default limits (100 results, 50MB)
+const DEFAULT_MAX_ENTRIES = 100;
+const DEFAULT_MAX_MB = 50;
+
+export interface CachedResult {
+  columns?: QueryColumn[];
+  rows: Record<string, unknown>[];
+}
+
+interface CacheEntry {
+  result: CachedResult;
+  bytes: number;
+}
+
+interface QueryCacheOptions {
+  maxEntries: number;
+  maxBytes: number;
+}
+
+export class QueryCache {
+  // Map iteration order is insertion order, so the first key is the least recently used
+  private entries = new Map<string, CacheEntry>();
+  private totalBytes = 0;
+  private fingerprint: string | undefined;
+  private options: QueryCacheOptions;
+
+  constructor(options: QueryCacheOptions) {
+    this.options = options;
+  }
+
+  get enabled(): boolean {
+    return this.options.maxEntries > 0 && this.options.maxBytes > 0;
+  }
+
+  private key(sql: string, params: unknown[], fingerprint: string): string {
+    return JSON.stringify([fingerprint, normalizeSql(sql), params]);
+  }
+
+  /**
+   * Drops every entry when the init script fingerprint changes, since none of
+   * them can be served any more
+   */
+  private checkFingerprint(fingerprint: string): void {
+    if (this.fingerprint !== undefined && this.fingerprint !== fingerprint) {
+      logger.debug('Init script changed, clearing query cache');
+      this.clear();
+    }
+    this.fingerprint = fingerprint;
+  }
+
+  /**
+   * Get a cached result, marking it as most recently used
+   */
+  get(sql: string, params: unknown[], fingerprint: string): CachedResult | undefined {
+    if (!this.enabled) {
+      return undefined;
+    }
+
+    this.checkFingerprint(fingerprint);
+
+    const key = this.key(sql, params, fingerprint);
+    const entry = this.entries.get(key);
+    if (!entry) {
+      return undefined;
+    }
+
+    this.entries.delete(key);
+    this.entries.set(key, entry);
+    return entry.result;
+  }
+
+  /**
+   * Store a result, evicting the least recently used entries to stay within the limits
+   */
+  set(sql: string, params: unknown[], fingerprint: string, result: CachedResult): void {
+    if (!this.enabled) {
+      return;
+    }
+
+    this.checkFingerprint(fingerprint);
+
+    const bytes = Buffer.byteLength(JSON.stringify(result));
+    if (bytes > this.options.maxBytes) {
+      logger.debug(`Query result of ${bytes} bytes is too large to cache`);
+      return;
+    }
+
+    const key = this.key(sql, params, fingerprint);
+    this.delete(key);
+    this.entries.set(key, { result, bytes });
+    this.totalBytes += bytes;
+
+    for (const oldestKey of this.entries.keys()) {
+      if (this.entries.size <= this.options.maxEntries && this.totalBytes <= this.options.maxBytes) {
+        break;
+      }
+      this.delete(oldestKey);
+    }
+  }
+
+  private delete(key: string): void {
+    const entry = this.entries.get(key);
+    if (entry) {
+      this.totalBytes -= entry.bytes;
+      this.entries.delete(key);
+    }
+  }
+
+  /**
+   * Remove every cached result
+   */
+  clear(): void {
+    this.entries.clear();
+    this.totalBytes = 0;
+  }
+
+  get size(): number {
+    return this.entries.size;
+  }
+}
+
+// Export singleton instance
+export const queryCache = new QueryCache({
+  maxEntries: process.env.TAILPIPE_MCP_QUERY_CACHE_MAX_ENTRIES
+    ? parseInt(process.env.TAILPIPE_MCP_QUERY_CACHE_MAX_ENTRIES, 10)
+    : DEFAULT_MAX_ENTRIES,
+  maxBytes: (process.env.TAILPIPE_MCP_QUERY_CACHE_MAX_MB
+    ? parseInt(process.env.TAILPIPE_MCP_QUERY_CACHE_MAX_MB, 10)
+    : DEFAULT_MAX_MB) * 1024 * 1024
+});
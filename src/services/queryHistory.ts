@@ -0,0 +1,125 @@
+/**
+ * Record of queries run through tailpipe_query
+ *
+ * The most recent entries are kept in a bounded in-memory ring, and every
+ * entry can optionally be appended to a JSONL file for auditing.
+ */
+
+import { appendFileSync, mkdirSync } from "fs";
+import { dirname, resolve } from "path";
+import { logger } from "./logger.js";
+
+// Default number of entries kept in memory
+const DEFAULT_MAX_ENTRIES = 500;
+
+export type QueryHistoryStatus = 'success' | 'error' | 'cancelled';
+
+export const QUERY_HISTORY_STATUSES: QueryHistoryStatus[] = ['success', 'error', 'cancelled'];
+
+export interface QueryHistoryEntry {
+  id: number;
+  // When the query started, as an ISO-8601 string
+  timestamp: string;
+  sql: string;
+  params: unknown[];
+  duration_ms: number;
+  // Rows returned to the caller, null when the query failed
+  row_count: number | null;
+  status: QueryHistoryStatus;
+  error?: string;
+  cached?: boolean;
+}
+
+export interface QueryHistoryFilter {
+  since?: Date;
+  until?: Date;
+  status?: QueryHistoryStatus;
+  limit?: number;
+}
+
+interface QueryHistoryOptions {
+  maxEntries: number;
+  // JSONL file every entry is appended to, when set
+  filePath?: string;
+}
+
+export class QueryHistory {
+  private entries: QueryHistoryEntry[] = [];
+  private nextId = 1;
+  private options: QueryHistoryOptions;
+
+  constructor(options: QueryHistoryOptions) {
+    this.options = options;
+  }
+
+  get filePath(): string | undefined {
+    return this.options.filePath;
+  }
+
+  /**
+   * Add an entry, dropping the oldest entries once the ring is full
+   */
+  record(entry: Omit<QueryHistoryEntry, 'id'>): QueryHistoryEntry {
+    const recorded = { id: this.nextId++, ...entry };
+
+    if (this.options.maxEntries > 0) {
+      this.entries.push(recorded);
+      if (this.entries.length > this.options.maxEntries) {
+        this.entries.splice(0, this.entries.length - this.options.maxEntries);
+      }
+    }
+
+    this.persist(recorded);
+    return recorded;
+  }
+
+  private persist(entry: QueryHistoryEntry): void {
+    if (!this.options.filePath) {
+      return;
+    }
+
+    try {
+      mkdirSync(dirname(this.options.filePath), { recursive: true });
+      appendFileSync(this.options.filePath, `${JSON.stringify(entry)}\n`);
+    } catch (error) {
+      logger.warn('Failed to write query history:', error instanceof Error ? error.message : String(error));
+    }
+  }
+
+  /**
+   * Get entries matching a filter, newest first
+   */
+  list(filter: QueryHistoryFilter = {}): QueryHistoryEntry[] {
+    const matches = this.entries
+      .filter(entry => {
+        const time = Date.parse(entry.timestamp);
+        return (!filter.since || time >= filter.since.getTime())
+          && (!filter.until || time <= filter.until.getTime())
+          && (!filter.status || entry.status === filter.status);
+      })
+      .reverse();
+
+    return filter.limit !== undefined ? matches.slice(0, filter.limit) : matches;
+  }
+
+  /**
+   * Remove every in-memory entry. The JSONL file is left untouched.
+   */
+  clear(): void {
+    this.entries = [];
+  }
+
+  get size(): number {
+    return this.entries.length;
+  }
+}
+
+// Export singleton instance
+export const queryHistory = new QueryHistory({
+  maxEntries: process.env.TAILPIPE_MCP_QUERY_HISTORY_MAX_ENTRIES
+    ? parseInt(process.env.TAILPIPE_MCP_QUERY_HISTORY_MAX_ENTRIES, 10)
+    : DEFAULT_MAX_ENTRIES,
+  filePath: process.env.TAILPIPE_MCP_QUERY_HISTORY_FILE
+    ? resolve(process.env.TAILPIPE_MCP_QUERY_HISTORY_FILE)
+    : undefined
+});
@@ -0,0 +1,237 @@
+/**
+ * Library of saved queries
+ *
+ * Each query is a .sql file in the saved queries directory, optionally
+ * starting with YAML or JSON front-matter between --- lines:
+ *
+ *   ---
+ *   name: console_logins_without_mfa
+ *   description: Console logins without MFA since a given time
+ *   parameters:
+ *     - name: since
+ *       type: string
+ *       default: "2024-01-01"
+ *   ---
+ *   SELECT * FROM aws_cloudtrail_log WHERE tp_timestamp >= $since ...
+ *
+ * Parameters are referenced in the SQL as $name placeholders.
+ */
+
+import { existsSync, readdirSync, readFileSync } from "fs";
+import { homedir } from "os";
+import { basename, extname, join, resolve } from "path";
+import YAML from "yaml";
+import { bindNamedPlaceholders, maskSqlLiterals, splitSqlStatements } from "../utils/sql.js";
+import { logger } from "./logger.js";
+
+export type SavedQueryParamType = 'string' | 'number' | 'integer' | 'boolean';
+
+const PARAM_TYPES: SavedQueryParamType[] = ['string', 'number', 'integer', 'boolean'];
+
+export interface SavedQueryParameter {
+  name: string;
+  description?: string;
+  // Accepts any scalar value when not set
+  type?: SavedQueryParamType;
+  default?: string | number | boolean | null;
+  // Defaults to true for parameters without a default value
+  required: boolean;
+}
+
+export interface SavedQuery {
+  name: string;
+  description?: string;
+  parameters: SavedQueryParameter[];
+  sql: string;
+  path: string;
+}
+
+type ParamValue = string | number | boolean | null;
+
+// Front-matter between --- lines at the start of the file
+const FRONT_MATTER = /^\uFEFF?---[^\S\n]*\r?\n([\s\S]*?)\r?\n---[^\S\n]*(?:\r?\n|$)/;
+
+function isScalar(value: unknown): value is ParamValue {
+  return value === null || ['string', 'number', 'boolean'].includes(typeof value);
+}
+
+function parseParameter(raw: unknown, path: string): SavedQueryParameter {
+  if (typeof raw !== 'object' || raw === null || !('name' in raw) || typeof raw.name !== 'string') {
+    throw new Error(`Each parameter in ${path} needs a name`);
+  }
+
+  const { name, description, type, default: defaultValue, required } = raw as Record<string, unknown>;
+
+  if (!/^[A-Za-z_]\w*$/.test(name as string)) {
+    throw new Error(`Invalid parameter name "${name}" in ${path}`);
+  }
+  if (type !== undefined && !PARAM_TYPES.includes(type as SavedQueryParamType)) {
+    throw new Error(`Parameter ${name} in ${path} has unknown type "${type}", expected one of: ${PARAM_TYPES.join(', ')}`);
+  }
+  if (defaultValue !== undefined && !isScalar(defaultValue)) {
+    throw new Error(`Parameter ${name} in ${path} must have a string, number, boolean or null default`);
+  }
+
+  return {
+    name: name as string,
+    ...(typeof description === 'string' && { description }),
+    ...(type !== undefined && { type: type as SavedQueryParamType }),
+    ...(defaultValue !== undefined && { default: defaultValue }),
+    required: typeof required === 'boolean' ? required : defaultValue === undefined
+  };
+}
+
+/**
+ * Parses a saved query file
+ * @param text The file contents
+ * @param path The file path, whose base name is used when the front-matter has no name
+ * @returns The saved query
+ * @throws Error if the front-matter is invalid, the SQL uses undeclared
+ *   parameters or has positional placeholders
+ */
+export function parseSavedQuery(text: string, path: string): SavedQuery {
+  const match = text.match(FRONT_MATTER);
+  // YAML is a superset of JSON, so both are parsed the same way
+  const meta = match ? YAML.parse(match[1]) ?? {} : {};
+  const sql = (match ? text.slice(match[0].length) : text).trim();
+
+  if (typeof meta !== 'object' || Array.isArray(meta)) {
+    throw new Error(`Front-matter in ${path} must be an object`);
+  }
+  if (!sql) {
+    throw new Error(`Saved query ${path} has no SQL`);
+  }
+  if (meta.parameters !== undefined && !Array.isArray(meta.parameters)) {
+    throw new Error(`parameters in ${path} must be a list`);
+  }
+
+  const parameters = (meta.parameters ?? []).map((raw: unknown) => parseParameter(raw, path));
+  const declared = new Set(parameters.map((param: SavedQueryParameter) => param.name));
+  const undeclared = bindNamedPlaceholders(sql).names.filter(name => !declared.has(name));
+  if (undeclared.length > 0) {
+    throw new Error(`Saved query ${path} uses undeclared parameter${undeclared.length === 1 ? '' : 's'}: ${undeclared.map(name => `$${name}`).join(', ')}`);
+  }
+  // $name parameters are bound as $1, $2, ..., so ? or $1 placeholders would
+  // silently take their values
+  if (/\?|(?<![\w$])\$\d/.test(maskSqlLiterals(sql))) {
+    throw new Error(`Saved query ${path} mixes ? or $1 placeholders with $name parameters. Reference every parameter by name, as $name.`);
+  }
+
+  return {
+    name: typeof meta.name === 'string' && meta.name.trim() ? meta.name.trim() : basename(path, extname(path)),
+    ...(typeof meta.description === 'string' && { description: meta.description }),
+    parameters,
+    sql,
+    path
+  };
+}
+
+function checkParamType(param: SavedQueryParameter, value: ParamValue): void {
+  if (value === null || !param.type) {
+    return;
+  }
+
+  const valid = param.type === 'integer'
+    ? Number.isInteger(value)
+    : typeof value === param.type;
+  if (!valid) {
+    throw new Error(`Parameter ${param.name} must be a${param.type === 'integer' ? 'n' : ''} ${param.type}`);
+  }
+}
+
+/**
+ * Binds parameter values to a saved query, applying defaults
+ * @param query The saved query
+ * @param values Parameter values by name
+ * @returns SQL with numbered placeholders and the values to bind to them
+ * @throws Error for unknown, missing or mistyped parameters
+ */
+export function bindSavedQuery(query: SavedQuery, values: Record<string, unknown> = {}): { sql: string; params: ParamValue[] } {
+  const unknown = Object.keys(values).filter(name => !query.parameters.some(param => param.name === name));
+  if (unknown.length > 0) {
+    throw new Error(`Unknown parameter${unknown.length === 1 ? '' : 's'} for saved query ${query.name}: ${unknown.join(', ')}`);
+  }
+
+  const resolved = new Map<string, ParamValue>();
+  for (const param of query.parameters) {
+    const value = values[param.name] !== undefined ? values[param.name] : param.default;
+    if (value === undefined) {
+      if (param.required) {
+        throw new Error(`Missing required parameter ${param.name} for saved query ${query.name}`);
+      }
+      resolved.set(param.name, null);
+      continue;
+    }
+    if (!isScalar(value)) {
+      throw new Error(`Parameter ${param.name} must be a string, number, boolean or null`);
+    }
+    checkParamType(param, value);
+    resolved.set(param.name, value);
+  }
+
+  // Batches bind each statement on its own, since tailpipe_query gives every
+  // statement of a batch the values for its own placeholders
+  const statements = splitSqlStatements(query.sql);
+  const bound = (statements.length > 1 ? statements : [query.sql]).map(bindNamedPlaceholders);
+  return {
+    sql: bound.map(statement => statement.sql).join(';\n'),
+    params: bound.flatMap(statement => statement.names.map(name => resolved.get(name) ?? null))
+  };
+}
+
+export class SavedQueryLibrary {
+  readonly directory: string;
+
+  constructor(directory: string) {
+    this.directory = directory;
+  }
+
+  /**
+   * Load every saved query in the directory, sorted by name. Files that fail
+   * to parse are skipped with a warning, and the first file wins when two
+   * queries share a name.
+   */
+  list(): SavedQuery[] {
+    if (!existsSync(this.directory)) {
+      return [];
+    }
+
+    const queries = new Map<string, SavedQuery>();
+    const files = readdirSync(this.directory)
+      .filter(file => extname(file).toLowerCase() === '.sql')
+      .sort();
+
+    for (const file of files) {
+      const path = join(this.directory, file);
+      try {
+        const query = parseSavedQuery(readFileSync(path, 'utf8'), path);
+        if (queries.has(query.name)) {
+          logger.warn(`Skipping saved query ${path}: name ${query.name} is already used by ${queries.get(query.name)!.path}`);
+          continue;
+        }
+        queries.set(query.name, query);
+      } catch (error) {
+        logger.warn(`Skipping saved query ${path}:`, error instanceof Error ? error.message : String(error));
+      }
+    }
+
+    return [...queries.values()].sort((a, b) => a.name.localeCompare(b.name));
+  }
+
+  /**
+   * Get a saved query by name
+   * @throws Error if there is no saved query with that name
+   */
+  get(name: string): SavedQuery {
+    const query = this.list().find(query => query.name === name);
+    if (!query) {
+      throw new Error(`Saved query not found: ${name}`);
+    }
+    return query;
+  }
+}
+
+// Export singleton instance
+export const savedQueries = new SavedQueryLibrary(
+  resolve(process.env.TAILPIPE_MCP_SAVED_QUERIES_DIR || join(homedir(), '.tailpipe', 'mcp', 'queries'))
+);
@@ -0,0 +1,93 @@
+/**
+ * Watches the DuckDB session's schema for changes
+ *
+ * The schema is fingerprinted after every new session, such as when
+ * tailpipe_connect switches init scripts, and at a regular interval to catch
+ * partitions Tailpipe adds to the current session. Listeners are told when the
+ * fingerprint differs from the last one seen.
+ */
+
+import type { DatabaseService } from "./database.js";
+import { schemaFingerprint } from "./catalog.js";
+import { logger } from "./logger.js";
+
+// Default interval between schema checks (1 minute)
+const DEFAULT_SCHEMA_POLL_MS = 60 * 1000;
+
+// Interval between schema checks, 0 only checks after a new session is built
+export const SCHEMA_POLL_MS = process.env.TAILPIPE_MCP_SCHEMA_POLL_MS
+  ? parseInt(process.env.TAILPIPE_MCP_SCHEMA_POLL_MS, 10)
+  : DEFAULT_SCHEMA_POLL_MS;
+
+export class SchemaMonitor {
+  private fingerprint: string | undefined;
+  private timer: NodeJS.Timeout | undefined;
+  // The latest check, so checks run one after another
+  private checking: Promise<boolean> = Promise.resolve(false);
+  private db: DatabaseService;
+  private onChange: () => void;
+
+  /**
+   * @param db The database service whose schema is watched
+   * @param onChange Called when the schema has changed since the last check
+   */
+  constructor(db: DatabaseService, onChange: () => void) {
+    this.db = db;
+    this.onChange = onChange;
+  }
+
+  /**
+   * Record the current schema and start watching it
+   * @param intervalMs Interval between checks, 0 to only check after new sessions
+   */
+  async start(intervalMs: number = SCHEMA_POLL_MS): Promise<void> {
+    this.db.onSessionChange(() => {
+      void this.check();
+    });
+    await this.check();
+
+    if (intervalMs > 0) {
+      this.timer = setInterval(() => {
+        void this.check();
+      }, intervalMs);
+      // Don't keep the process alive just to poll the schema
+      this.timer.unref();
+    }
+  }
+
+  stop(): void {
+    clearInterval(this.timer);
+    this.timer = undefined;
+  }
+
+  /**
+   * Fingerprint the schema and notify the listener if it changed. The first
+   * check only records the fingerprint. Failures, for example while the
+   * session is being rebuilt, are logged and leave the last fingerprint in place.
+   * @returns Whether the schema changed
+   */
+  check(): Promise<boolean> {
+    this.checking = this.checking.then(() => this.compare());
+    return this.checking;
+  }
+
+  private async compare(): Promise<boolean> {
+    let fingerprint: string;
+    try {
+      fingerprint = await schemaFingerprint(this.db);
+    } catch (error) {
+      logger.debug('Failed to fingerprint schema:', error instanceof Error ? error.message : String(error));
+      return false;
+    }
+
+    const previous = this.fingerprint;
+    this.fingerprint = fingerprint;
+    if (previous === undefined || previous === fingerprint) {
+      return false;
+    }
+
+    logger.info(`Schema changed (fingerprint ${previous} -> ${fingerprint})`);
+    this.onChange();
+    return true;
+  }
+}
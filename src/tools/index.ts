@@ -3,16 +3,29 @@ import { CallToolRequestSchema, ListToolsRequestSchema, type CallToolRequest, ty
 import { DatabaseService } from "../services/database.js";
 import AjvModule from "ajv";
 import { logger } from "../services/logger.js";
+import type { ToolContext } from "../types/index.js";
 
 // Database Operations
 import { tool as queryTool } from './tailpipe_query.js';
 import { tool as connectTool } from './tailpipe_connect.js';
+import { tool as queryExplainTool } from './tailpipe_query_explain.js';
+import { tool as queryExportTool } from './tailpipe_query_export.js';
+import { tool as queryHistoryTool } from './tailpipe_query_history.js';
+import { tool as queryValidateTool } from './tailpipe_query_validate.js';
+
+// Saved Query Operations
+import { tool as savedQueryListTool } from './tailpipe_saved_query_list.js';
+import { tool as savedQueryShowTool } from './tailpipe_saved_query_show.js';
+import { tool as savedQueryRunTool } from './tailpipe_saved_query_run.js';
 
 // Data Structure Operations
 import { tool as partitionListTool } from './tailpipe_partition_list.js';
 import { tool as partitionShowTool } from './tailpipe_partition_show.js';
 import { tool as tableListTool } from './tailpipe_table_list.js';
 import { tool as tableShowTool } from './tailpipe_table_show.js';
+import { tool as columnSearchTool } from './tailpipe_column_search.js';
+import { tool as tableSampleTool } from './tailpipe_table_sample.js';
+import { tool as tableCoverageTool } from './tailpipe_table_coverage.js';
 
 // Plugin Operations
 import { tool as pluginListTool } from './tailpipe_plugin_list.js';
@@ -24,19 +37,31 @@ import { tool as sourceShowTool } from './tailpipe_source_show.js';
 
 // Initialize JSON Schema validator
 const Ajv = AjvModule.default || AjvModule;
-const ajv = new Ajv();
+const ajv = new Ajv({ allowUnionTypes: true });
 
 // Export all tools for server capabilities
 export const tools = {
   // Database Operations
   tailpipe_query: queryTool,          // Core database query functionality
   tailpipe_connect: connectTool,      // Database connection management
+  tailpipe_query_explain: queryExplainTool,  // Query plans and partition pruning
+  tailpipe_query_export: queryExportTool,    // Export query results to files
+  tailpipe_query_history: queryHistoryTool,  // Queries run in this session
+  tailpipe_query_validate: queryValidateTool,  // Check SQL against the live schema
+
+  // Saved Query Operations
+  tailpipe_saved_query_list: savedQueryListTool,  // List saved queries
+  tailpipe_saved_query_show: savedQueryShowTool,  // Show a saved query
+  tailpipe_saved_query_run: savedQueryRunTool,    // Run a saved query
 
   // Data Structure Operations
   tailpipe_partition_list: partitionListTool,  // List available partitions
   tailpipe_partition_show: partitionShowTool,  // Show partition details
   tailpipe_table_list: tableListTool,         // List available tables
   tailpipe_table_show: tableShowTool,         // Show table details
+  tailpipe_column_search: columnSearchTool,   // Find columns across tables
+  tailpipe_table_sample: tableSampleTool,     // Sample rows from a table
+  tailpipe_table_coverage: tableCoverageTool, // Time coverage and gaps of tables
 
   // Plugin Operations
   tailpipe_plugin_list: pluginListTool,       // List available plugins
@@ -47,6 +72,21 @@ export const tools = {
   tailpipe_source_show: sourceShowTool        // Show source details
 };
 
+// Tools whose handlers take the database service as their first argument
+const databaseTools = new Set<string>([
+  'tailpipe_query',
+  'tailpipe_connect',
+  'tailpipe_query_explain',
+  'tailpipe_query_export',
+  'tailpipe_query_validate',
+  'tailpipe_saved_query_run',
+  'tailpipe_table_list',
+  'tailpipe_table_show',
+  'tailpipe_column_search',
+  'tailpipe_table_sample',
+  'tailpipe_table_coverage'
+]);
+
 // Initialize tool handlers
 export function setupTools(server: Server, db: DatabaseService) {
   // Register tool list handler
@@ -57,7 +97,7 @@ export function setupTools(server: Server, db: DatabaseService) {
   });
 
   // Register tool handlers
-  server.setRequestHandler(CallToolRequestSchema, async (request: CallToolRequest) => {
+  server.setRequestHandler(CallToolRequestSchema, async (request: CallToolRequest, extra) => {
     const { name, arguments: args = {} } = request.params;
     const tool = tools[name as keyof typeof tools];
 
@@ -83,7 +123,7 @@ export function setupTools(server: Server, db: DatabaseService) {
             case 'required':
               return `Missing required field: ${err.params.missingProperty}`;
             case 'type':
-              return `${path} must be a ${err.params.type}`;
+              return `${path} must be a ${Array.isArray(err.params.type) ? err.params.type.join(' or ') : err.params.type}`;
             case 'enum':
               return `${path} must be one of: ${err.params.allowedValues?.join(', ')}`;
             case 'additionalProperties':
@@ -104,8 +144,22 @@ export function setupTools(server: Server, db: DatabaseService) {
     }
 
     // Special handling for database-dependent tools
-    if (name === 'tailpipe_query' || name === 'tailpipe_connect') {
-      return await (tool.handler as (db: DatabaseService, args: unknown) => Promise<ServerResult>)(db, args);
+    if (databaseTools.has(name)) {
+      const progressToken = request.params._meta?.progressToken;
+      const context: ToolContext = {
+        signal: extra.signal,
+        ...(progressToken !== undefined && {
+          sendProgress: (progress: number, message?: string) => {
+            server.notification({
+              method: "notifications/progress",
+              params: { progressToken, progress, ...(message && { message }) }
+            }).catch(error => {
+              logger.debug('Failed to send progress notification:', error instanceof Error ? error.message : String(error));
+            });
+          }
+        })
+      };
+      return await (tool.handler as (db: DatabaseService, args: unknown, context: ToolContext) => Promise<ServerResult>)(db, args, context);
     }
 
     // Standard tool handling
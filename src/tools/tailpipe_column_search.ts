@@ -0,0 +1,134 @@
+import type { Tool } from "@modelcontextprotocol/sdk/types.js";
+import { logger } from "../services/logger.js";
+import { DatabaseService, QueryCancelledError } from "../services/database.js";
+import { listCatalogColumns } from "../services/catalog.js";
+import { flattenColumnType } from "../utils/columnTypes.js";
+import { stringifyResponse } from "../utils/format.js";
+import type { ToolContext } from "../types/index.js";
+
+interface ColumnMatch {
+  table: string;
+  schema: string;
+  // Top-level column the match is in
+  column: string;
+  // Column name, or the dotted path of a nested STRUCT field
+  path: string;
+  type: string;
+  nested: boolean;
+}
+
+function escapeRegExp(text: string): string {
+  return text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
+
+/**
+ * Builds the name matcher: a regular expression when asked for, a whole-name
+ * match when the pattern has * or ? wildcards, otherwise a substring match.
+ * Matching ignores case.
+ * @throws SyntaxError if the regular expression is invalid
+ */
+function namePattern(pattern: string, regex: boolean): RegExp {
+  if (regex) {
+    return new RegExp(pattern, 'i');
+  }
+  if (/[*?]/.test(pattern)) {
+    const source = pattern.split('').map(char => char === '*' ? '.*' : char === '?' ? '.' : escapeRegExp(char)).join('');
+    return new RegExp(`^${source}$`, 'i');
+  }
+  return new RegExp(escapeRegExp(pattern), 'i');
+}
+
+export const tool: Tool = {
+  name: "tailpipe_column_search",
+  description: `Find columns by name across every table and view in the current DuckDB session, including fields nested inside STRUCT columns. Returns matching table/column pairs with their DuckDB types, so you can find the columns to join or filter on (for example every column holding an IP address or ARN) without showing each table in turn.
+
+Nested fields are reported by path, such as \`user_identity.session_context.mfa_authenticated\`, with \`[]\` marking a list element (\`resources[].arn\`); in SQL, read them with dot notation or unnest() for lists. A pattern is matched against a field's own name, or against its full path when the pattern contains a dot; a regular expression may match either.`,
+  inputSchema: {
+    type: "object",
+    properties: {
+      pattern: {
+        type: "string",
+        description: "Column name to search for. Plain text matches anywhere in the name; * and ? are wildcards matched against the whole name (e.g. '*_ip'). Case-insensitive."
+      },
+      regex: {
+        type: "boolean",
+        description: "Treat pattern as a case-insensitive regular expression. Defaults to false."
+      },
+      type: {
+        type: "string",
+        description: "Only return columns whose DuckDB type contains this text, e.g. 'VARCHAR', 'TIMESTAMP' or 'STRUCT'. Case-insensitive."
+      },
+      table: {
+        type: "string",
+        description: "Only search tables whose name contains this text. Case-insensitive."
+      }
+    },
+    required: ["pattern"],
+    additionalProperties: false
+  },
+  handler: async (db: DatabaseService, args: { pattern: string; regex?: boolean; type?: string; table?: string }, context: ToolContext = {}) => {
+    logger.debug('Executing column_search tool');
+
+    try {
+      const pattern = namePattern(args.pattern, args.regex ?? false);
+      const type = args.type?.toLowerCase();
+      const table = args.table?.toLowerCase();
+
+      const columns = (await listCatalogColumns(db, { signal: context.signal }))
+        .filter(column => !table || column.table.toLowerCase().includes(table));
+
+      // Plain patterns naming a path are matched against the whole path, so a match
+      // on a struct's name does not also return every field nested in it
+      const byPath = !args.regex && args.pattern.includes('.');
+
+      const matches: ColumnMatch[] = [];
+      for (const column of columns) {
+        for (const field of flattenColumnType(column.name, column.type)) {
+          const name = field.path.slice(field.path.lastIndexOf('.') + 1);
+          const matched = args.regex
+            ? pattern.test(name) || pattern.test(field.path)
+            : pattern.test(byPath ? field.path : name);
+          if (!matched) {
+            continue;
+          }
+          if (type && !field.type.toLowerCase().includes(type)) {
+            continue;
+          }
+          matches.push({
+            table: column.table,
+            schema: column.schema,
+            column: column.name,
+            path: field.path,
+            type: field.type,
+            nested: field.path !== column.name
+          });
+        }
+      }
+
+      return {
+        content: [{
+          type: "text",
+          text: stringifyResponse({
+            matches,
+            match_count: matches.length,
+            tables_searched: new Set(columns.map(column => `${column.schema}.${column.table}`)).size
+          })
+        }],
+        isError: false
+      };
+    } catch (error) {
+      if (error instanceof QueryCancelledError) {
+        return {
+          content: [{ type: "text", text: stringifyResponse({ error: error.message, cancelled: true, reason: error.reason }) }],
+          isError: true
+        };
+      }
+
+      logger.error('Failed to search columns:', error instanceof Error ? error.message : String(error));
+      return {
+        content: [{ type: "text", text: stringifyResponse({ error: error instanceof Error ? error.message : String(error) }) }],
+        isError: true
+      };
+    }
+  }
+};
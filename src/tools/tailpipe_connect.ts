@@ -1,6 +1,7 @@
 import type { Tool } from "@modelcontextprotocol/sdk/types.js";
 import { DatabaseService, type DatabaseSourceType } from "../services/database.js";
 import { logger } from "../services/logger.js";
+import { queryCache } from "../services/queryCache.js";
 import { formatCommandError } from "../utils/command.js";
 import { validateAndFormat } from "../utils/format.js";
 import { buildTailpipeCommand } from "../utils/tailpipe.js";
@@ -37,6 +38,9 @@ export const tool: Tool = {
       
       // Close the temporary service
       await newDb.close();
+
+      // Results from the previous session may no longer be accurate
+      queryCache.clear();
       
       const result = {
         connection: {
@@ -1,55 +1,431 @@
 import type { Tool } from "@modelcontextprotocol/sdk/types.js";
 import { logger } from "../services/logger.js";
-import { DatabaseService } from "../services/database.js";
-import { stringifyResponse } from '../utils/format.js';
+import { DatabaseService, QueryCancelledError, QUERY_TIMEOUT_MS, type QueryColumn, type QueryOptions, type QueryProgress, type QuerySession } from "../services/database.js";
+import { queryCache, type CachedResult } from "../services/queryCache.js";
+import { queryHistory, type QueryHistoryEntry } from "../services/queryHistory.js";
+import { QUERY_OUTPUT_FORMATS, formatQueryResult, stringifyResponse, type QueryOutputFormat } from '../utils/format.js';
+import { RESPONSE_MAX_BYTES, fitPageToBudget, type TruncationInfo } from '../utils/budget.js';
+import { buildLosslessSql, serializeRow } from '../utils/serialize.js';
+import { assertParamCount, assertPlaceholderStyle, assertReadOnlySql, bindNamedPlaceholders, countSqlPlaceholders, parseSessionStatement, splitSqlStatements, type SessionDefinition } from '../utils/sql.js';
+import { QUERY_ROW_LIMIT, buildPage, buildPagedSql, decodeCursor } from '../utils/pagination.js';
+import { TIME_RANGE_GUARDRAIL, findUnboundedScans, unboundedScanMessage } from '../utils/timeRange.js';
+import type { ToolContext } from '../types/index.js';
+
+export type BatchErrorPolicy = 'stop' | 'continue';
+
+const BATCH_ERROR_POLICIES: BatchErrorPolicy[] = ['stop', 'continue'];
+
+interface BatchStatementResult {
+  index: number;
+  statement: string;
+  status: 'success' | 'error' | 'skipped';
+  columns?: QueryColumn[];
+  rows?: Record<string, unknown>[];
+  row_count?: number;
+  truncated?: boolean;
+  truncation?: TruncationInfo;
+  error?: string;
+}
+
+/**
+ * Gets the result columns of a query, or undefined if DuckDB cannot describe
+ * it. Errors are left for the query itself to report.
+ */
+async function describeColumns(db: QuerySession, sql: string): Promise<QueryColumn[] | undefined> {
+  try {
+    return await db.describeQuery(sql);
+  } catch (error) {
+    logger.debug('Failed to describe query columns:', error instanceof Error ? error.message : String(error));
+    return undefined;
+  }
+}
+
+/**
+ * Runs a query and serializes its rows. Values the DuckDB bindings would
+ * return lossily are converted in SQL first when the query can be wrapped.
+ */
+export async function runQuery(db: QuerySession, sql: string, params: unknown[], wrappable: boolean, options: QueryOptions): Promise<CachedResult> {
+  const columns = await describeColumns(db, sql);
+  const losslessSql = wrappable && columns ? buildLosslessSql(sql, columns) : undefined;
+
+  const rows = await db.executeQuery(losslessSql ?? sql, params, options);
+
+  return {
+    columns,
+    rows: rows.map(row => serializeRow(row, columns))
+  };
+}
+
+type QueryParam = string | number | boolean | null;
+
+// Tables partitioned by time, per init script version and session
+let partitionedTables: { fingerprint: string; tables: Set<string> } | undefined;
+
+/**
+ * Gets the lower-case names of the tables with a tp_date or tp_timestamp column
+ */
+async function getPartitionedTables(db: DatabaseService, signal?: AbortSignal): Promise<Set<string>> {
+  const fingerprint = db.initScriptFingerprint;
+  if (partitionedTables?.fingerprint !== fingerprint) {
+    const rows = await db.executeQuery(
+      `SELECT DISTINCT lower(table_name) AS table_name FROM information_schema.columns WHERE column_name IN ('tp_date', 'tp_timestamp')`,
+      [],
+      { signal }
+    );
+    partitionedTables = { fingerprint, tables: new Set(rows.map(row => row.table_name)) };
+  }
+  return partitionedTables.tables;
+}
+
+/**
+ * Applies the time-range guardrail, returning warnings for tables scanned
+ * without a time filter, or throwing when the guardrail blocks them
+ */
+async function checkTimeRange(db: DatabaseService, sql: string, acknowledged: boolean, signal?: AbortSignal): Promise<string[]> {
+  if (TIME_RANGE_GUARDRAIL === 'off' || acknowledged) {
+    return [];
+  }
+
+  const unbounded = findUnboundedScans(sql, await getPartitionedTables(db, signal));
+  if (unbounded.length === 0) {
+    return [];
+  }
+
+  const message = unboundedScanMessage(unbounded);
+  if (TIME_RANGE_GUARDRAIL === 'block') {
+    throw new Error(message);
+  }
+  return [message];
+}
+
+/**
+ * Ensures every statement in a batch is read-only or a session setup
+ * statement (SET VARIABLE or CREATE TEMP MACRO), and that params holds one
+ * value per placeholder across the statements
+ */
+function assertBatch(statements: string[], params: unknown[]): void {
+  statements.forEach((statement, index) => {
+    try {
+      assertPlaceholderStyle(statement);
+    } catch (error) {
+      throw new Error(`Statement ${index + 1}: ${error instanceof Error ? error.message : String(error)}`);
+    }
+    if (parseSessionStatement(statement)) {
+      return;
+    }
+    try {
+      assertReadOnlySql(statement);
+    } catch (error) {
+      throw new Error(`Statement ${index + 1}: ${error instanceof Error ? error.message : String(error)} Batches may also contain SET VARIABLE and CREATE TEMP MACRO statements.`);
+    }
+  });
+
+  const expected = statements.reduce((total, statement) => total + countSqlPlaceholders(statement), 0);
+  if (expected !== params.length) {
+    throw new Error(
+      `Batch has ${expected} parameter placeholder${expected === 1 ? '' : 's'} but ${params.length} value${params.length === 1 ? ' was' : 's were'} provided in params`
+    );
+  }
+}
+
+// A variable or macro defined by a batch. saved names the shadow variable
+// holding the value a variable had before the batch set it.
+type BatchDefinition = SessionDefinition & { saved?: string };
+
+/**
+ * Looks up what a batch's session statement is about to replace, before it
+ * runs. The value of an existing variable, for example one set by the init
+ * script, is copied to a shadow variable so it can be restored after the
+ * batch. Existing macros are left alone, since CREATE TEMP MACRO fails for them.
+ * @param id Distinguishes the shadow variables of one batch
+ * @returns What to clean up after the batch, or undefined for nothing
+ */
+async function prepareDefinition(session: QuerySession, definition: SessionDefinition, id: number): Promise<BatchDefinition | undefined> {
+  const name = definition.name.startsWith('"') ? definition.name.slice(1, -1).replace(/""/g, '"') : definition.name;
+
+  if (definition.kind === 'variable') {
+    const [existing] = await session.executeQuery('SELECT name FROM duckdb_variables() WHERE lower(name) = lower(?)', [name], {});
+    if (!existing) {
+      return definition;
+    }
+    const saved = `tailpipe_batch_saved_${id}`;
+    await session.executeQuery(`SET VARIABLE ${saved} = getvariable('${String(existing.name).replace(/'/g, "''")}')`, [], {});
+    return { ...definition, saved };
+  }
+
+  const [existing] = await session.executeQuery(
+    "SELECT function_name FROM duckdb_functions() WHERE database_name = 'temp' AND lower(function_name) = lower(?) LIMIT 1",
+    [name],
+    {}
+  );
+  return existing ? undefined : definition;
+}
+
+/**
+ * Removes the variables and temporary macros a batch defined, and restores
+ * the variables it overwrote, so they do not leak into later queries on the
+ * pooled connection
+ */
+async function dropSessionDefinitions(session: QuerySession, definitions: BatchDefinition[]): Promise<void> {
+  for (const { kind, name, saved } of definitions.reverse()) {
+    const statements = saved
+      ? [`SET VARIABLE ${name} = getvariable('${saved}')`, `RESET VARIABLE ${saved}`]
+      : [kind === 'variable'
+        ? `RESET VARIABLE ${name}`
+        : `DROP MACRO ${kind === 'table macro' ? 'TABLE ' : ''}IF EXISTS temp.main.${name}`];
+    try {
+      for (const sql of statements) {
+        await session.executeQuery(sql, [], {});
+      }
+    } catch (error) {
+      logger.warn(`Failed to ${saved ? 'restore' : 'remove'} ${kind} ${name} ${saved ? 'overwritten' : 'defined'} by a query batch:`, error instanceof Error ? error.message : String(error));
+    }
+  }
+}
+
+/**
+ * Runs the statements of a batch in order on one pooled connection. Each query
+ * returns at most limit rows and an equal share of the response budget.
+ * After a failed statement the rest are skipped, unless the policy is to
+ * continue. Cancellation stops the whole batch.
+ */
+async function runBatch(session: QuerySession, statements: string[], params: unknown[], limit: number, policy: BatchErrorPolicy, options: QueryOptions): Promise<BatchStatementResult[]> {
+  const queryCount = statements.filter(statement => !parseSessionStatement(statement)).length;
+  const maxBytes = Math.floor(RESPONSE_MAX_BYTES / Math.max(queryCount, 1));
+  const definitions: BatchDefinition[] = [];
+  const results: BatchStatementResult[] = [];
+  let paramOffset = 0;
+  let failed = false;
+
+  try {
+    for (const [index, statement] of statements.entries()) {
+      // Each statement takes the values for its own placeholders, in order
+      const statementParams = params.slice(paramOffset, paramOffset += countSqlPlaceholders(statement));
+
+      if (failed && policy === 'stop') {
+        results.push({ index, statement, status: 'skipped' });
+        continue;
+      }
+
+      // Named placeholders are bound in order of first appearance
+      const boundStatement = bindNamedPlaceholders(statement).sql;
+
+      try {
+        const definition = parseSessionStatement(statement);
+        if (definition) {
+          // Only the first definition of a name has anything to clean up
+          const repeated = definitions.some(({ kind, name }) => kind === definition.kind && name.toLowerCase() === definition.name.toLowerCase());
+          const cleanup = repeated ? undefined : await prepareDefinition(session, definition, definitions.length);
+          // A saved value is restored even if the statement fails
+          if (cleanup?.saved) {
+            definitions.push(cleanup);
+          }
+          await session.executeQuery(boundStatement, statementParams, options);
+          if (cleanup && !cleanup.saved) {
+            definitions.push(cleanup);
+          }
+          results.push({ index, statement, status: 'success' });
+          continue;
+        }
+
+        const pagedSql = buildPagedSql(boundStatement, limit, 0);
+        const { columns, rows } = await runQuery(session, pagedSql ?? boundStatement, statementParams, !!pagedSql, options);
+        const resultColumns = columns ?? Object.keys(rows[0] ?? {}).map(name => ({ name, type: 'UNKNOWN' }));
+        // Batches are not cached, so a statement's rows cannot be resumed with a cursor
+        const { next_cursor: _cursor, ...page } = fitPageToBudget(
+          buildPage(rows, statement, limit, 0, !pagedSql, statementParams),
+          { index, statement, status: 'success', columns: resultColumns },
+          undefined,
+          maxBytes
+        );
+        results.push({ index, statement, status: 'success', columns: resultColumns, ...page });
+      } catch (error) {
+        if (error instanceof QueryCancelledError) {
+          throw error;
+        }
+        failed = true;
+        results.push({ index, statement, status: 'error', error: error instanceof Error ? error.message : String(error) });
+      }
+    }
+  } finally {
+    await dropSessionDefinitions(session, definitions);
+  }
+
+  return results;
+}
+
+/**
+ * Records a tailpipe_query call in the query history
+ */
+function recordHistory(sql: string, params: QueryParam[] | undefined, startTime: number, outcome: Pick<QueryHistoryEntry, 'status' | 'row_count' | 'error' | 'cached'>): void {
+  queryHistory.record({
+    timestamp: new Date(startTime).toISOString(),
+    sql,
+    params: params ?? [],
+    duration_ms: Date.now() - startTime,
+    ...outcome
+  });
+}
+
+/**
+ * Reports rows fetched so far as MCP progress, when the client asked for it
+ */
+export function progressReporter(context: ToolContext): QueryOptions['onProgress'] {
+  const { sendProgress } = context;
+  if (!sendProgress) {
+    return undefined;
+  }
+  return ({ rows, elapsedMs }: QueryProgress) =>
+    sendProgress(rows, `Fetched ${rows} row${rows === 1 ? '' : 's'} in ${(elapsedMs / 1000).toFixed(1)}s`);
+}
 
 export const tool: Tool = {
   name: "tailpipe_query",
-  description: `Execute read-only SQL queries against cloud and security logs using DuckDB syntax. Results are returned in JSON format. Before writing queries, you can explore available tables and their structures using the tailpipe_table_list and tailpipe_table_show commands.`,
+  description: `Execute read-only SQL queries against cloud and security logs using DuckDB syntax. Every response includes the result \`columns\` with their DuckDB types. Results are returned as JSON rows by default, or as columnar JSON, CSV or a Markdown table via \`format\`, with at most \`limit\` rows (default ${QUERY_ROW_LIMIT}) per call; when \`truncated\` is true, pass \`next_cursor\` back as \`cursor\` with the same SQL to fetch the next page. Responses are also capped in bytes: long values are clipped with a marker and rows beyond the budget are left for the next page, as described in the \`truncation\` field. Add an ORDER BY when paging so pages are stable. Several statements separated by semicolons run as a batch on one session, returning each statement's result or error in order under \`results\`; a batch may start with SET VARIABLE or CREATE TEMP MACRO statements, which are removed again afterwards. Filter log tables on tp_date or tp_timestamp so only the relevant partitions are read. Long-running queries report rows fetched and elapsed time as progress notifications when the request includes a progress token. Before writing queries, you can explore available tables and their structures using the tailpipe_table_list and tailpipe_table_show commands.`,
   inputSchema: {
     type: "object",
     properties: {
       sql: {
         type: "string",
-        description: "The SQL query to execute. Must use DuckDB SQL syntax and be read-only."
+        description: "The SQL query to execute. Must use DuckDB SQL syntax and be read-only (SELECT, WITH, DESCRIBE, SUMMARIZE or EXPLAIN)."
+      },
+      limit: {
+        type: "integer",
+        minimum: 1,
+        description: `Maximum number of rows to return. Defaults to ${QUERY_ROW_LIMIT}.`
+      },
+      params: {
+        type: "array",
+        items: {
+          type: ["string", "number", "boolean", "null"]
+        },
+        description: "Values bound to the query's placeholders. Use one style per statement: ? placeholders take the values in order, $1, $2, ... take the value at that position, and distinct $name placeholders take the values in order of their first appearance. Use these instead of splicing IPs, ARNs or user names into the SQL string."
+      },
+      cursor: {
+        type: "string",
+        description: "Opaque cursor from a previous response's next_cursor, used to fetch the next page of the same query."
+      },
+      timeout_ms: {
+        type: "integer",
+        minimum: 0,
+        description: `How long to wait for the query, in milliseconds, before returning a timeout error. Defaults to ${QUERY_TIMEOUT_MS}; 0 disables the timeout. DuckDB cannot interrupt a running statement, so one that times out keeps running in the background until it finishes.`
+      },
+      no_cache: {
+        type: "boolean",
+        description: "Bypass the result cache and re-run the query against the logs. Defaults to false."
+      },
+      format: {
+        type: "string",
+        enum: QUERY_OUTPUT_FORMATS,
+        description: "Output format: 'json' (array of row objects, the default), 'columnar' (compact columns + rows arrays), 'csv', or 'markdown' (a table for human-facing answers)."
+      },
+      acknowledge_full_scan: {
+        type: "boolean",
+        description: "Set to true to deliberately query log tables without a tp_date or tp_timestamp filter when the time-range guardrail would otherwise warn about or refuse the query."
+      },
+      on_error: {
+        type: "string",
+        enum: BATCH_ERROR_POLICIES,
+        description: "For multi-statement batches: 'stop' (the default) skips the remaining statements after one fails, 'continue' runs them anyway."
       }
     },
     required: ["sql"],
     additionalProperties: false
   },
-  handler: async (db: DatabaseService, args: { sql: string }) => {
+  handler: async (db: DatabaseService, args: { sql: string; params?: QueryParam[]; limit?: number; cursor?: string; timeout_ms?: number; no_cache?: boolean; format?: QueryOutputFormat; acknowledge_full_scan?: boolean; on_error?: BatchErrorPolicy }, context: ToolContext = {}) => {
     logger.debug('Executing query_tailpipe tool');
-    
+    const startTime = Date.now();
+
     try {
-      const rows = await db.executeQuery(args.sql);
-      
-      // Handle BigInt serialization by converting to Numbers or Strings
-      const processedRows = rows.map(row => {
-        const processedRow: Record<string, any> = {};
-        Object.entries(row).forEach(([key, value]) => {
-          if (typeof value === 'bigint') {
-            // Convert BigInt to a regular number if it fits within safe integer range
-            if (value <= Number.MAX_SAFE_INTEGER && value >= Number.MIN_SAFE_INTEGER) {
-              processedRow[key] = Number(value);
-            } else {
-              // Otherwise convert to string to avoid precision loss
-              processedRow[key] = value.toString();
-            }
-          } else {
-            processedRow[key] = value;
-          }
-        });
-        return processedRow;
+      const statements = splitSqlStatements(args.sql);
+      const params = args.params ?? [];
+
+      if (statements.length > 1) {
+        // Reject anything that could modify the session beyond the batch itself
+        assertBatch(statements, params);
+        if (args.cursor) {
+          throw new Error('cursor cannot be used with a multi-statement batch. Run the statement on its own to page through its results.');
+        }
+        if (args.format && args.format !== 'json') {
+          throw new Error(`format ${args.format} cannot be used with a multi-statement batch, which always returns JSON`);
+        }
+      } else {
+        // Reject anything that could modify the session built by the init script
+        assertReadOnlySql(args.sql);
+        assertParamCount(args.sql, params);
+      }
+
+      const warnings = await checkTimeRange(db, args.sql, args.acknowledge_full_scan ?? false, context.signal);
+
+      const limit = args.limit ?? QUERY_ROW_LIMIT;
+
+      if (statements.length > 1) {
+        const results = await db.withSession(session => runBatch(session, statements, params, limit, args.on_error ?? 'stop', {
+          timeoutMs: args.timeout_ms,
+          signal: context.signal,
+          onProgress: progressReporter(context)
+        }), context.signal);
+
+        const errors = results.filter(result => result.status === 'error');
+        const rowCount = results.reduce((total, result) => total + (result.row_count ?? 0), 0);
+        recordHistory(args.sql, args.params, startTime, errors.length > 0
+          ? { status: 'error', row_count: rowCount, error: errors[0].error }
+          : { status: 'success', row_count: rowCount, cached: false });
+
+        return {
+          content: [{ type: "text", text: stringifyResponse({ results, ...(warnings.length > 0 && { warnings }) }, { budgeted: true }) }],
+          isError: errors.length > 0
+        };
+      }
+
+      const offset = args.cursor ? decodeCursor(args.cursor, args.sql, params) : 0;
+
+      // DuckDB binds named placeholders by name, so number them in order of first appearance
+      const boundSql = bindNamedPlaceholders(args.sql).sql;
+
+      // Push the limit down into DuckDB where possible, otherwise page the full result
+      const pagedSql = buildPagedSql(boundSql, limit, offset);
+      const querySql = pagedSql ?? boundSql;
+
+      // Taken before the query runs, so a session swapped in meanwhile never sees its result
+      const fingerprint = db.initScriptFingerprint;
+      const cachedResult = args.no_cache ? undefined : queryCache.get(querySql, params, fingerprint);
+      const result = cachedResult ?? await runQuery(db, querySql, params, !!pagedSql, {
+        timeoutMs: args.timeout_ms,
+        signal: context.signal,
+        onProgress: progressReporter(context)
       });
 
+      if (!cachedResult) {
+        queryCache.set(querySql, params, fingerprint, result);
+      }
+
+      const { columns, rows: processedRows } = result;
+      const resultColumns = columns ?? Object.keys(processedRows[0] ?? {}).map(name => ({ name, type: 'UNKNOWN' }));
+      const metadata = { cached: !!cachedResult, ...(warnings.length > 0 && { warnings }) };
+      const page = fitPageToBudget(buildPage(processedRows, args.sql, limit, offset, !pagedSql, params), { columns: resultColumns, ...metadata }, { sql: args.sql, offset, params });
+
+      recordHistory(args.sql, args.params, startTime, { status: 'success', row_count: page.row_count, cached: !!cachedResult });
+
       return {
-        content: [{ type: "text", text: stringifyResponse(processedRows) }],
+        content: formatQueryResult({ columns: resultColumns, ...page, ...metadata }, args.format),
         isError: false
       };
     } catch (error) {
-      logger.error('Failed to execute query:', error instanceof Error ? error.message : String(error));
+      const message = error instanceof Error ? error.message : String(error);
+
+      if (error instanceof QueryCancelledError) {
+        recordHistory(args.sql, args.params, startTime, { status: 'cancelled', row_count: null, error: message });
+        return {
+          content: [{ type: "text", text: stringifyResponse({ error: error.message, cancelled: true, reason: error.reason }) }],
+          isError: true
+        };
+      }
+
+      recordHistory(args.sql, args.params, startTime, { status: 'error', row_count: null, error: message });
+      logger.error('Failed to execute query:', message);
       return {
-        content: [{ type: "text", text: stringifyResponse({ error: error instanceof Error ? error.message : String(error) }) }],
+        content: [{ type: "text", text: stringifyResponse({ error: message }) }],
         isError: true
       };
     }
@@ -0,0 +1,202 @@
+import type { Tool } from "@modelcontextprotocol/sdk/types.js";
+import { logger } from "../services/logger.js";
+import { DatabaseService, QueryCancelledError } from "../services/database.js";
+import { stringifyResponse } from '../utils/format.js';
+import { assertReadOnlySql, splitSqlStatements } from '../utils/sql.js';
+import type { ToolContext } from '../types/index.js';
+
+interface PlanNode {
+  name: string;
+  extra_info: Record<string, unknown>;
+  cardinality?: number;
+  timing?: number;
+  children: PlanNode[];
+}
+
+interface ScanInfo {
+  operator: string;
+  function?: string;
+  table?: string;
+  filters: string[];
+  files?: {
+    read: number;
+    total?: number;
+  };
+  parquet: boolean;
+  full_scan: boolean;
+  time_filter_pushed_down: boolean;
+}
+
+// A plan node as DuckDB writes it in EXPLAIN or EXPLAIN ANALYZE JSON output
+interface RawPlanNode {
+  name?: unknown;
+  operator_name?: unknown;
+  operator_type?: unknown;
+  operator_cardinality?: number;
+  operator_timing?: number;
+  extra_info?: unknown;
+  children?: RawPlanNode[];
+}
+
+// Tailpipe partitions log files by these columns
+const TIME_COLUMNS = /\btp_(date|timestamp)\b/i;
+
+function infoText(value: unknown): string | undefined {
+  if (value === undefined || value === null || value === '') {
+    return undefined;
+  }
+  return Array.isArray(value) ? value.join('\n') : String(value);
+}
+
+/**
+ * Normalizes a plan node from either EXPLAIN (name, extra_info) or
+ * EXPLAIN ANALYZE (operator_name, operator_cardinality, ...) JSON output
+ */
+function normalizePlanNode(raw: RawPlanNode): PlanNode {
+  const extraInfo = raw.extra_info && typeof raw.extra_info === 'object'
+    ? raw.extra_info as Record<string, unknown>
+    : (raw.extra_info ? { info: raw.extra_info } : {});
+
+  return {
+    name: String(raw.name ?? raw.operator_name ?? raw.operator_type ?? 'UNKNOWN').trim(),
+    extra_info: extraInfo,
+    ...(raw.operator_cardinality !== undefined && { cardinality: raw.operator_cardinality }),
+    ...(raw.operator_timing !== undefined && { timing: raw.operator_timing }),
+    children: Array.isArray(raw.children) ? raw.children.map(normalizePlanNode) : []
+  };
+}
+
+/**
+ * Parses file counts such as "Scanning Files: 3/120" or "Total Files Read: 3"
+ */
+function parseFileCounts(extraInfo: Record<string, unknown>): ScanInfo['files'] {
+  const scanning = infoText(extraInfo['Scanning Files'])?.match(/(\d+)\s*\/\s*(\d+)/);
+  if (scanning) {
+    return { read: parseInt(scanning[1], 10), total: parseInt(scanning[2], 10) };
+  }
+
+  const totalRead = infoText(extraInfo['Total Files Read'])?.match(/\d+/);
+  if (totalRead) {
+    return { read: parseInt(totalRead[0], 10) };
+  }
+
+  return undefined;
+}
+
+function collectScans(node: PlanNode, scans: ScanInfo[] = []): ScanInfo[] {
+  const fn = infoText(node.extra_info['Function']);
+
+  if (/SCAN|READ_/i.test(node.name) || (fn && /SCAN|READ_/i.test(fn))) {
+    const filters = [node.extra_info['Filters'], node.extra_info['File Filters']]
+      .map(infoText)
+      .filter((filter): filter is string => filter !== undefined);
+    const files = parseFileCounts(node.extra_info);
+    const parquet = /PARQUET|DUCKLAKE/i.test(`${node.name} ${fn ?? ''}`);
+
+    scans.push({
+      operator: node.name,
+      ...(fn && { function: fn }),
+      ...(node.extra_info['Table'] !== undefined && { table: infoText(node.extra_info['Table']) }),
+      filters,
+      ...(files && { files }),
+      parquet,
+      full_scan: parquet && (filters.length === 0 || (files?.total !== undefined && files.read >= files.total)),
+      time_filter_pushed_down: filters.some(filter => TIME_COLUMNS.test(filter))
+    });
+  }
+
+  node.children.forEach(child => collectScans(child, scans));
+  return scans;
+}
+
+function summarizeScans(scans: ScanInfo[]) {
+  const parquetScans = scans.filter(scan => scan.parquet);
+  const fileCounts = parquetScans.map(scan => scan.files?.read);
+
+  const warnings = parquetScans.flatMap(scan => {
+    const target = scan.table ?? scan.function ?? scan.operator;
+    return [
+      ...(scan.full_scan ? [`Full scan of parquet files in ${target}`] : []),
+      ...(!scan.time_filter_pushed_down ? [`No tp_date/tp_timestamp filter pushed down to ${target}`] : [])
+    ];
+  });
+
+  return {
+    parquet_scans: parquetScans.length,
+    full_scans: parquetScans.filter(scan => scan.full_scan).length,
+    // Only known when DuckDB reports file counts for every parquet scan
+    files_touched: fileCounts.every(count => count !== undefined)
+      ? fileCounts.reduce<number>((sum, count) => sum + (count ?? 0), 0)
+      : null,
+    time_filter_pushed_down: parquetScans.length > 0 && parquetScans.every(scan => scan.time_filter_pushed_down),
+    warnings
+  };
+}
+
+export const tool: Tool = {
+  name: "tailpipe_query_explain",
+  description: `Show the DuckDB query plan for a read-only SQL query without returning its rows. The plan tree is returned as JSON along with a summary of parquet scans: full scans, the number of files touched and whether filters on tp_date/tp_timestamp were pushed down. Use this to rewrite expensive queries before running them with tailpipe_query.`,
+  inputSchema: {
+    type: "object",
+    properties: {
+      sql: {
+        type: "string",
+        description: "The single read-only SQL query to explain. Must use DuckDB SQL syntax."
+      },
+      analyze: {
+        type: "boolean",
+        description: "Run the query with EXPLAIN ANALYZE to report actual row counts, timings and files read. Defaults to false, which only plans the query."
+      }
+    },
+    required: ["sql"],
+    additionalProperties: false
+  },
+  handler: async (db: DatabaseService, args: { sql: string; analyze?: boolean }, context: ToolContext = {}) => {
+    logger.debug('Executing query_explain tool');
+
+    try {
+      assertReadOnlySql(args.sql);
+
+      const statements = splitSqlStatements(args.sql);
+      if (statements.length !== 1) {
+        throw new Error('Only a single statement can be explained');
+      }
+
+      const options = args.analyze ? 'ANALYZE, FORMAT JSON' : 'FORMAT JSON';
+      const rows = await db.executeQuery(`EXPLAIN (${options}) ${statements[0]}`, [], { signal: context.signal });
+
+      const output: Array<RawPlanNode | RawPlanNode[]> = rows.map(row => JSON.parse(row.explain_value));
+      // EXPLAIN returns an array of root operators, EXPLAIN ANALYZE a query
+      // profile whose children are the root operators
+      const roots = output.flatMap(value => Array.isArray(value) ? value : (value.children ?? []));
+      const plan = roots.map(normalizePlanNode);
+      const scans = plan.flatMap(node => collectScans(node));
+
+      return {
+        content: [{
+          type: "text",
+          text: stringifyResponse({
+            analyzed: args.analyze ?? false,
+            summary: summarizeScans(scans),
+            scans,
+            plan
+          })
+        }],
+        isError: false
+      };
+    } catch (error) {
+      if (error instanceof QueryCancelledError) {
+        return {
+          content: [{ type: "text", text: stringifyResponse({ error: error.message, cancelled: true, reason: error.reason }) }],
+          isError: true
+        };
+      }
+
+      logger.error('Failed to explain query:', error instanceof Error ? error.message : String(error));
+      return {
+        content: [{ type: "text", text: stringifyResponse({ error: error instanceof Error ? error.message : String(error) }) }],
+        isError: true
+      };
+    }
+  }
+};
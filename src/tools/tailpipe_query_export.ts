@@ -0,0 +1,115 @@
+import type { Tool } from "@modelcontextprotocol/sdk/types.js";
+import { existsSync, rmSync, statSync } from "fs";
+import { logger } from "../services/logger.js";
+import { DatabaseService, QueryCancelledError, QUERY_TIMEOUT_MS } from "../services/database.js";
+import { stringifyResponse } from '../utils/format.js';
+import { assertParamCount, assertReadOnlySql, bindNamedPlaceholders, classifySqlStatements, splitSqlStatements } from '../utils/sql.js';
+import { EXPORT_DIR, EXPORT_FORMATS, buildCopySql, resolveExportPath, type ExportFormat } from '../utils/export.js';
+import type { ToolContext } from '../types/index.js';
+
+type QueryParam = string | number | boolean | null;
+
+export const tool: Tool = {
+  name: "tailpipe_query_export",
+  description: `Run a read-only SQL query and write the full result to a Parquet, CSV or JSONL file instead of returning the rows, for handing large result sets to other tools or teammates. Files are written under the export directory (${EXPORT_DIR}). Returns the file path, row count and size in bytes.`,
+  inputSchema: {
+    type: "object",
+    properties: {
+      sql: {
+        type: "string",
+        description: "A single read-only SELECT or WITH query to export. Must use DuckDB SQL syntax."
+      },
+      format: {
+        type: "string",
+        enum: EXPORT_FORMATS,
+        description: "File format: 'parquet' (the default), 'csv' (with a header row) or 'jsonl' (one JSON object per line)."
+      },
+      filename: {
+        type: "string",
+        description: "File name or path relative to the export directory. The format's extension is added when missing; the extension of another format is rejected. Defaults to a timestamped name."
+      },
+      params: {
+        type: "array",
+        items: {
+          type: ["string", "number", "boolean", "null"]
+        },
+        description: "Values bound to the query's placeholders, as for tailpipe_query: ? placeholders take the values in order, $1, $2, ... the value at that position, and distinct $name placeholders the values in order of their first appearance."
+      },
+      overwrite: {
+        type: "boolean",
+        description: "Replace the file if it already exists. Defaults to false."
+      },
+      timeout_ms: {
+        type: "integer",
+        minimum: 0,
+        description: `How long to wait for the export, in milliseconds, before returning a timeout error. Defaults to ${QUERY_TIMEOUT_MS}; 0 disables the timeout. DuckDB cannot interrupt a running statement, so one that times out keeps running in the background until it finishes.`
+      }
+    },
+    required: ["sql"],
+    additionalProperties: false
+  },
+  handler: async (db: DatabaseService, args: { sql: string; format?: ExportFormat; filename?: string; params?: QueryParam[]; overwrite?: boolean; timeout_ms?: number }, context: ToolContext = {}) => {
+    logger.debug('Executing query_export tool');
+
+    try {
+      assertReadOnlySql(args.sql);
+
+      const statements = splitSqlStatements(args.sql);
+      const [type] = classifySqlStatements(args.sql);
+      if (statements.length !== 1 || (type !== 'SELECT' && type !== 'WITH')) {
+        throw new Error('Only a single SELECT or WITH query can be exported');
+      }
+
+      const params = args.params ?? [];
+      assertParamCount(args.sql, params);
+
+      const format = args.format ?? 'parquet';
+      const path = resolveExportPath(args.filename, format);
+      const existed = existsSync(path);
+      if (existed && !args.overwrite) {
+        throw new Error(`Export file already exists: ${path}. Pass overwrite: true to replace it.`);
+      }
+
+      let rows: Record<string, unknown>[];
+      try {
+        // Named placeholders are bound in order of first appearance
+        rows = await db.executeQuery(buildCopySql(bindNamedPlaceholders(statements[0]).sql, path, format), params, {
+          timeoutMs: args.timeout_ms,
+          signal: context.signal
+        });
+      } catch (error) {
+        // Don't leave a partially written file behind
+        if (!existed) {
+          rmSync(path, { force: true });
+        }
+        throw error;
+      }
+
+      return {
+        content: [{
+          type: "text",
+          text: stringifyResponse({
+            path,
+            format,
+            row_count: Number(rows[0]?.Count ?? 0),
+            bytes: statSync(path).size
+          })
+        }],
+        isError: false
+      };
+    } catch (error) {
+      if (error instanceof QueryCancelledError) {
+        return {
+          content: [{ type: "text", text: stringifyResponse({ error: error.message, cancelled: true, reason: error.reason }) }],
+          isError: true
+        };
+      }
+
+      logger.error('Failed to export query:', error instanceof Error ? error.message : String(error));
+      return {
+        content: [{ type: "text", text: stringifyResponse({ error: error instanceof Error ? error.message : String(error) }) }],
+        isError: true
+      };
+    }
+  }
+};
@@ -0,0 +1,71 @@
+import type { Tool } from "@modelcontextprotocol/sdk/types.js";
+import { logger } from "../services/logger.js";
+import { QUERY_HISTORY_STATUSES, queryHistory, type QueryHistoryStatus } from "../services/queryHistory.js";
+import { stringifyResponse } from '../utils/format.js';
+
+// Default number of entries returned per call
+const DEFAULT_HISTORY_LIMIT = 50;
+
+function parseTime(value: string | undefined, field: string): Date | undefined {
+  if (value === undefined) {
+    return undefined;
+  }
+
+  const time = new Date(value);
+  if (Number.isNaN(time.getTime())) {
+    throw new Error(`${field} must be an ISO-8601 timestamp`);
+  }
+  return time;
+}
+
+export const tool: Tool = {
+  name: "tailpipe_query_history",
+  description: `List queries previously run with tailpipe_query in this session, newest first, with their SQL, params, duration, row count and any error. Filter by time range or status to audit what was run or to find a query to re-run.`,
+  inputSchema: {
+    type: "object",
+    properties: {
+      since: {
+        type: "string",
+        description: "Only include queries started at or after this ISO-8601 timestamp."
+      },
+      until: {
+        type: "string",
+        description: "Only include queries started at or before this ISO-8601 timestamp."
+      },
+      status: {
+        type: "string",
+        enum: QUERY_HISTORY_STATUSES,
+        description: "Only include queries with this outcome: 'success', 'error' or 'cancelled' (timed out or cancelled by the client)."
+      },
+      limit: {
+        type: "integer",
+        minimum: 1,
+        description: `Maximum number of entries to return. Defaults to ${DEFAULT_HISTORY_LIMIT}.`
+      }
+    },
+    additionalProperties: false
+  },
+  handler: async (args: { since?: string; until?: string; status?: QueryHistoryStatus; limit?: number }) => {
+    logger.debug('Executing query_history tool');
+
+    try {
+      const entries = queryHistory.list({
+        since: parseTime(args.since, 'since'),
+        until: parseTime(args.until, 'until'),
+        status: args.status,
+        limit: args.limit ?? DEFAULT_HISTORY_LIMIT
+      });
+
+      return {
+        content: [{ type: "text", text: stringifyResponse({ history: entries }) }],
+        isError: false
+      };
+    } catch (error) {
+      logger.error('Failed to list query history:', error instanceof Error ? error.message : String(error));
+      return {
+        content: [{ type: "text", text: stringifyResponse({ error: error instanceof Error ? error.message : String(error) }) }],
+        isError: true
+      };
+    }
+  }
+};
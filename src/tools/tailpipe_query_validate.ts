@@ -0,0 +1,476 @@
+import type { Tool } from "@modelcontextprotocol/sdk/types.js";
+import type { AST } from "node-sql-parser";
+import { logger } from "../services/logger.js";
+import { DatabaseService, QueryCancelledError } from "../services/database.js";
+import { listCatalogColumns } from "../services/catalog.js";
+import { stringifyResponse } from '../utils/format.js';
+import { assertReadOnlySql, maskSqlLiterals, parserOptions, sqlParser } from '../utils/sql.js';
+import { suggestNames } from '../utils/suggest.js';
+import { identifierName, isColumnRef, isNode, isSelect, type ColumnRefNode, type SelectNode } from '../utils/sqlAst.js';
+import type { ToolContext } from '../types/index.js';
+
+type IssueType = 'syntax_error' | 'not_read_only' | 'unknown_table' | 'unknown_column';
+
+interface ValidationIssue {
+  type: IssueType;
+  message: string;
+  name?: string;
+  // Table or alias the unknown column was qualified with
+  table?: string;
+  line?: number;
+  column?: number;
+  suggestions?: string[];
+}
+
+// A table or view in the session with the names of its columns
+interface KnownTable {
+  schema: string;
+  name: string;
+  columns: string[];
+}
+
+// Columns available from a FROM item, undefined when they cannot be known
+// without running the query (table functions, SELECT *, unnamed expressions)
+interface Source {
+  columns?: string[];
+}
+
+interface Scope {
+  sources: Map<string, Source>;
+  // Output column aliases, which DuckDB allows in WHERE, GROUP BY and ORDER BY
+  aliases: Set<string>;
+  parent?: Scope;
+}
+
+const lower = (name: string) => name.toLowerCase();
+
+/**
+ * Converts a character offset into a 1-based line and column
+ */
+function positionAt(text: string, offset: number): { line: number; column: number } {
+  const before = text.slice(0, offset);
+  const lines = before.split('\n');
+  return { line: lines.length, column: lines[lines.length - 1].length + 1 };
+}
+
+function escapeRegExp(text: string): string {
+  return text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
+
+/**
+ * Finds the first place an identifier (optionally qualified) is written
+ * outside strings and comments
+ */
+function locate(sql: string, name: string, qualifier?: string): { line: number; column: number } | undefined {
+  const pattern = new RegExp(`(?<![\\w$.])${qualifier ? `${escapeRegExp(qualifier)}\\s*\\.\\s*` : ''}${escapeRegExp(name)}(?!\\w)`, 'i');
+  const match = maskSqlLiterals(sql).match(pattern);
+  return match?.index !== undefined ? positionAt(sql, match.index) : undefined;
+}
+
+function didYouMean(suggestions: string[]): string {
+  return suggestions.length > 0 ? ` Did you mean ${suggestions.map(s => `"${s}"`).join(', ')}?` : '';
+}
+
+/**
+ * Resolves the tables and columns referenced by parsed statements against
+ * the catalog, scope by scope, so aliases, CTEs and subqueries are understood
+ */
+class IdentifierResolver {
+  readonly issues: ValidationIssue[] = [];
+  readonly tables = new Set<string>();
+  private lambdaParams = new Set<string>();
+  private seen = new Set<string>();
+
+  constructor(private sql: string, private catalog: KnownTable[]) {}
+
+  resolve(statements: AST[]): void {
+    statements.forEach(statement => this.collectLambdaParams(statement));
+    for (const statement of statements) {
+      if (isSelect(statement)) {
+        this.visitSelect(statement, undefined, new Map());
+      }
+    }
+  }
+
+  private report(issue: ValidationIssue): void {
+    const key = `${issue.type}:${issue.table ?? ''}:${lower(issue.name ?? '')}`;
+    if (!this.seen.has(key)) {
+      this.seen.add(key);
+      this.issues.push(issue);
+    }
+  }
+
+  /**
+   * Lambda parameters (x -> x + 1) parse as column references, so they are
+   * collected up front and never reported
+   */
+  private collectLambdaParams(node: unknown): void {
+    if (!isNode(node)) {
+      return;
+    }
+    if (node.type === 'binary_expr' && node.operator === '->' && !(isNode(node.right) && ['single_quote_string', 'number', 'string'].includes(String(node.right.type)))) {
+      this.columnRefs(node.left).forEach(name => this.lambdaParams.add(lower(name)));
+    }
+    Object.values(node).forEach(child => this.collectLambdaParams(child));
+  }
+
+  private columnRefs(node: unknown): string[] {
+    if (!isNode(node)) {
+      return [];
+    }
+    if (isColumnRef(node)) {
+      const name = identifierName(node.column);
+      return name ? [name] : [];
+    }
+    return Object.values(node).flatMap(child => this.columnRefs(child));
+  }
+
+  private findTable(schema: string | null | undefined, name: string): KnownTable | undefined {
+    const matches = this.catalog.filter(table =>
+      lower(table.name) === lower(name) && (!schema || lower(table.schema) === lower(schema))
+    );
+    return matches.find(table => table.schema === 'main') ?? matches[0];
+  }
+
+  private visitSelect(select: SelectNode, parent: Scope | undefined, outerCtes: Map<string, Source>): Source {
+    const ctes = new Map(outerCtes);
+
+    for (const cte of select.with ?? []) {
+      const name = lower(identifierName(cte.name) ?? '');
+      // Recursive CTEs refer to themselves before their columns are known
+      ctes.set(name, {});
+      const stmt = cte.stmt?.ast ?? cte.stmt;
+      const output = isSelect(stmt) ? this.visitSelect(stmt, parent, ctes) : {};
+      const declared = Array.isArray(cte.columns)
+        ? cte.columns.map(identifierName).filter((column): column is string => column !== undefined)
+        : [];
+      ctes.set(name, declared.length > 0 ? { columns: declared } : output);
+    }
+
+    const scope: Scope = { sources: new Map(), aliases: new Set(), parent };
+
+    (select.from ?? []).forEach((item, index) => {
+      const alias = identifierName(item.as);
+      const table = identifierName(item.table);
+      const key = lower(alias ?? table ?? `#${index}`);
+
+      if (isSelect(item.expr?.ast)) {
+        scope.sources.set(key, this.visitSelect(item.expr.ast, parent, ctes));
+      } else if (item.expr) {
+        // Table function such as read_parquet(...)
+        this.visitExpression(item.expr, parent ?? { sources: new Map(), aliases: new Set() }, ctes);
+        scope.sources.set(key, {});
+      } else if (table) {
+        scope.sources.set(key, this.resolveTable(item.db, table, ctes));
+      }
+    });
+
+    for (const column of select.columns ?? []) {
+      const alias = identifierName(column.as);
+      if (alias) {
+        scope.aliases.add(lower(alias));
+      }
+    }
+
+    for (const item of select.from ?? []) {
+      this.visitExpression(item.on, scope, ctes);
+    }
+    for (const clause of ['columns', 'where', 'groupby', 'having', 'orderby', 'window', 'qualify']) {
+      this.visitExpression(select[clause], scope, ctes);
+    }
+
+    if (select._next) {
+      this.visitSelect(select._next, parent, ctes);
+    }
+
+    return { columns: this.outputColumns(select) };
+  }
+
+  private resolveTable(schema: string | null | undefined, name: string, ctes: Map<string, Source>): Source {
+    if (!schema && ctes.has(lower(name))) {
+      return ctes.get(lower(name))!;
+    }
+
+    const table = this.findTable(schema, name);
+    if (table) {
+      this.tables.add(table.schema === 'main' ? table.name : `${table.schema}.${table.name}`);
+      return { columns: table.columns };
+    }
+
+    const suggestions = suggestNames(name, [...this.catalog.map(t => t.name), ...ctes.keys()]);
+    this.report({
+      type: 'unknown_table',
+      message: `Unknown table "${schema ? `${schema}.` : ''}${name}".${didYouMean(suggestions)}`,
+      name,
+      ...locate(this.sql, name, schema ?? undefined),
+      suggestions
+    });
+    // Columns of an unknown table cannot be checked
+    return {};
+  }
+
+  private visitExpression(node: unknown, scope: Scope, ctes: Map<string, Source>): void {
+    if (!isNode(node)) {
+      return;
+    }
+    if (Array.isArray(node)) {
+      node.forEach(child => this.visitExpression(child, scope, ctes));
+      return;
+    }
+    if (isSelect(node.ast)) {
+      this.visitSelect(node.ast, scope, ctes);
+      return;
+    }
+    if (isSelect(node)) {
+      this.visitSelect(node, scope, ctes);
+      return;
+    }
+    if (isColumnRef(node)) {
+      this.resolveColumn(node, scope);
+      return;
+    }
+    for (const [key, child] of Object.entries(node)) {
+      if (key !== 'loc') {
+        this.visitExpression(child, scope, ctes);
+      }
+    }
+  }
+
+  private lookupSource(scope: Scope | undefined, name: string): Source | undefined {
+    for (let current = scope; current; current = current.parent) {
+      const source = current.sources.get(lower(name));
+      if (source) {
+        return source;
+      }
+    }
+    return undefined;
+  }
+
+  private hasColumn(scope: Scope | undefined, name: string): boolean {
+    for (let current = scope; current; current = current.parent) {
+      for (const source of current.sources.values()) {
+        if (!source.columns || source.columns.some(column => lower(column) === lower(name))) {
+          return true;
+        }
+      }
+    }
+    return false;
+  }
+
+  private hasAlias(scope: Scope | undefined, name: string): boolean {
+    for (let current = scope; current; current = current.parent) {
+      if (current.aliases.has(lower(name))) {
+        return true;
+      }
+    }
+    return false;
+  }
+
+  private columnsInScope(scope: Scope | undefined): string[] {
+    const columns: string[] = [];
+    for (let current = scope; current; current = current.parent) {
+      current.sources.forEach(source => columns.push(...(source.columns ?? [])));
+      columns.push(...current.aliases);
+    }
+    return columns;
+  }
+
+  private sourceNamesInScope(scope: Scope | undefined): string[] {
+    const names: string[] = [];
+    for (let current = scope; current; current = current.parent) {
+      // Unnamed subqueries are keyed by position
+      names.push(...[...current.sources.keys()].filter(key => !key.startsWith('#')));
+    }
+    return names;
+  }
+
+  private resolveColumn(ref: ColumnRefNode, scope: Scope): void {
+    const name = identifierName(ref.column);
+    const qualifier = identifierName(ref.table);
+
+    // schema.table.column and struct paths three or more levels deep are not checked
+    if (!name || ref.schema) {
+      return;
+    }
+
+    if (!qualifier) {
+      if (name === '*' || this.lambdaParams.has(lower(name)) || this.hasColumn(scope, name) || this.hasAlias(scope, name)) {
+        return;
+      }
+      const suggestions = suggestNames(name, this.columnsInScope(scope));
+      this.report({
+        type: 'unknown_column',
+        message: `Unknown column "${name}".${didYouMean(suggestions)}`,
+        name,
+        ...locate(this.sql, name),
+        suggestions
+      });
+      return;
+    }
+
+    const source = this.lookupSource(scope, qualifier);
+    if (source) {
+      if (name !== '*' && source.columns && !source.columns.some(column => lower(column) === lower(name))) {
+        const suggestions = suggestNames(name, source.columns);
+        this.report({
+          type: 'unknown_column',
+          message: `Unknown column "${name}" in "${qualifier}".${didYouMean(suggestions)}`,
+          name,
+          table: qualifier,
+          ...locate(this.sql, name, qualifier),
+          suggestions
+        });
+      }
+      return;
+    }
+
+    // A column qualifier that is itself a column is a STRUCT field access
+    if (this.hasColumn(scope, qualifier)) {
+      return;
+    }
+
+    const suggestions = suggestNames(qualifier, [...this.sourceNamesInScope(scope), ...this.columnsInScope(scope)]);
+    this.report({
+      type: 'unknown_table',
+      message: `Unknown table, alias or column "${qualifier}" in "${qualifier}.${name}".${didYouMean(suggestions)}`,
+      name: qualifier,
+      ...locate(this.sql, qualifier),
+      suggestions
+    });
+  }
+
+  /**
+   * Output column names of a SELECT, or undefined when any of them can only
+   * be known by running it
+   */
+  private outputColumns(select: SelectNode): string[] | undefined {
+    const names: string[] = [];
+    for (const column of select.columns ?? []) {
+      const alias = identifierName(column.as);
+      const refName = column.expr?.type === 'column_ref' ? identifierName(column.expr.column) : undefined;
+      const name = alias ?? refName;
+      if (!name || name === '*') {
+        return undefined;
+      }
+      names.push(name);
+    }
+    return names;
+  }
+}
+
+/**
+ * Parses SQL with DuckDB's own parser, without binding or running it, and
+ * returns the syntax error if there is one
+ */
+async function checkSyntax(db: DatabaseService, sql: string, signal?: AbortSignal): Promise<ValidationIssue | undefined> {
+  const rows = await db.executeQuery('SELECT json_serialize_sql(?::VARCHAR) AS parsed', [sql], { signal });
+  const parsed = JSON.parse(rows[0]?.parsed ?? '{}');
+
+  // Statements other than SELECT parse fine but cannot be serialized
+  if (!parsed.error || !/parser/i.test(String(parsed.error_type))) {
+    return undefined;
+  }
+
+  // DuckDB reports the position as a byte offset
+  const offset = parsed.position !== undefined ? parseInt(parsed.position, 10) : NaN;
+  const position = Number.isNaN(offset)
+    ? undefined
+    : positionAt(sql, Buffer.from(sql).subarray(0, offset).toString().length);
+
+  return {
+    type: 'syntax_error',
+    message: String(parsed.error_message),
+    ...position
+  };
+}
+
+async function loadCatalog(db: DatabaseService, signal?: AbortSignal): Promise<KnownTable[]> {
+  const tables = new Map<string, KnownTable>();
+  for (const column of await listCatalogColumns(db, { signal })) {
+    const key = `${column.catalog}.${column.schema}.${column.table}`;
+    if (!tables.has(key)) {
+      tables.set(key, { schema: column.schema, name: column.table, columns: [] });
+    }
+    tables.get(key)!.columns.push(column.name);
+  }
+  return [...tables.values()];
+}
+
+export const tool: Tool = {
+  name: "tailpipe_query_validate",
+  description: `Check a SQL query before running it, without scanning any data. Syntax errors are reported with their line and column, and the tables and columns it references are checked against the live schema, with "did you mean" suggestions for unknown names. Use this to catch misspelled or hallucinated column names before calling tailpipe_query.`,
+  inputSchema: {
+    type: "object",
+    properties: {
+      sql: {
+        type: "string",
+        description: "The SQL query to validate. Must use DuckDB SQL syntax."
+      }
+    },
+    required: ["sql"],
+    additionalProperties: false
+  },
+  handler: async (db: DatabaseService, args: { sql: string }, context: ToolContext = {}) => {
+    logger.debug('Executing query_validate tool');
+
+    try {
+      const syntaxError = await checkSyntax(db, args.sql, context.signal);
+      if (syntaxError) {
+        return {
+          content: [{ type: "text", text: stringifyResponse({ valid: false, issues: [syntaxError], tables: [], identifiers_checked: false }) }],
+          isError: false
+        };
+      }
+
+      const issues: ValidationIssue[] = [];
+      try {
+        assertReadOnlySql(args.sql);
+      } catch (error) {
+        issues.push({ type: 'not_read_only', message: error instanceof Error ? error.message : String(error) });
+      }
+
+      let statements: AST[] | undefined;
+      try {
+        const ast = sqlParser.astify(args.sql, parserOptions);
+        statements = Array.isArray(ast) ? ast : [ast];
+      } catch (error) {
+        logger.debug('SQL parser could not parse query for identifier checks:', error instanceof Error ? error.message : String(error));
+      }
+
+      const resolver = new IdentifierResolver(args.sql, statements ? await loadCatalog(db, context.signal) : []);
+      if (statements) {
+        resolver.resolve(statements);
+        issues.push(...resolver.issues);
+      }
+
+      return {
+        content: [{
+          type: "text",
+          text: stringifyResponse({
+            valid: issues.length === 0,
+            issues,
+            tables: [...resolver.tables],
+            identifiers_checked: !!statements,
+            ...(!statements && {
+              warning: 'The query is valid DuckDB syntax, but uses syntax the identifier checker does not understand, so tables and columns were not checked.'
+            })
+          })
+        }],
+        isError: false
+      };
+    } catch (error) {
+      if (error instanceof QueryCancelledError) {
+        return {
+          content: [{ type: "text", text: stringifyResponse({ error: error.message, cancelled: true, reason: error.reason }) }],
+          isError: true
+        };
+      }
+
+      logger.error('Failed to validate query:', error instanceof Error ? error.message : String(error));
+      return {
+        content: [{ type: "text", text: stringifyResponse({ error: error instanceof Error ? error.message : String(error) }) }],
+        isError: true
+      };
+    }
+  }
+};
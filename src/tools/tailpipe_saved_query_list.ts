@@ -0,0 +1,32 @@
+import type { Tool } from "@modelcontextprotocol/sdk/types.js";
+import { logger } from "../services/logger.js";
+import { savedQueries } from "../services/savedQueries.js";
+import { stringifyResponse } from '../utils/format.js';
+
+export const tool: Tool = {
+  name: "tailpipe_saved_query_list",
+  description: `List the saved queries in the local query library with their descriptions and parameters. Run one with tailpipe_saved_query_run instead of retyping it.`,
+  inputSchema: {
+    type: "object",
+    properties: {},
+    additionalProperties: false
+  },
+  handler: async () => {
+    logger.debug('Executing saved_query_list tool');
+
+    try {
+      const queries = savedQueries.list().map(({ name, description, parameters }) => ({ name, description, parameters }));
+
+      return {
+        content: [{ type: "text", text: stringifyResponse({ saved_queries: queries, directory: savedQueries.directory }) }],
+        isError: false
+      };
+    } catch (error) {
+      logger.error('Failed to list saved queries:', error instanceof Error ? error.message : String(error));
+      return {
+        content: [{ type: "text", text: stringifyResponse({ error: error instanceof Error ? error.message : String(error) }) }],
+        isError: true
+      };
+    }
+  }
+};
@@ -0,0 +1,60 @@
+import type { Tool } from "@modelcontextprotocol/sdk/types.js";
+import { logger } from "../services/logger.js";
+import { DatabaseService } from "../services/database.js";
+import { bindSavedQuery, savedQueries } from "../services/savedQueries.js";
+import { stringifyResponse, type QueryOutputFormat } from '../utils/format.js';
+import { tool as queryTool, type BatchErrorPolicy } from './tailpipe_query.js';
+import type { ToolContext } from '../types/index.js';
+
+type QueryHandler = (db: DatabaseService, args: Record<string, unknown>, context: ToolContext) => Promise<unknown>;
+
+const queryProperties = queryTool.inputSchema.properties as Record<string, object>;
+
+export const tool: Tool = {
+  name: "tailpipe_saved_query_run",
+  description: `Run a saved query from the local query library by name, with parameter values by name. Parameters that are not given use their defaults. Results, paging and output formats are the same as tailpipe_query; to fetch the next page pass next_cursor back as cursor with the same name and params.`,
+  inputSchema: {
+    type: "object",
+    properties: {
+      name: {
+        type: "string",
+        description: "Name of the saved query to run"
+      },
+      params: {
+        type: "object",
+        additionalProperties: {
+          type: ["string", "number", "boolean", "null"]
+        },
+        description: "Parameter values by name, e.g. { \"since\": \"2024-03-01\" }. See tailpipe_saved_query_show for the parameters a query takes."
+      },
+      limit: queryProperties.limit,
+      cursor: queryProperties.cursor,
+      timeout_ms: queryProperties.timeout_ms,
+      no_cache: queryProperties.no_cache,
+      format: queryProperties.format,
+      acknowledge_full_scan: queryProperties.acknowledge_full_scan,
+      on_error: queryProperties.on_error
+    },
+    required: ["name"],
+    additionalProperties: false
+  },
+  handler: async (db: DatabaseService, args: { name: string; params?: Record<string, unknown>; limit?: number; cursor?: string; timeout_ms?: number; no_cache?: boolean; format?: QueryOutputFormat; acknowledge_full_scan?: boolean; on_error?: BatchErrorPolicy }, context: ToolContext = {}) => {
+    logger.debug('Executing saved_query_run tool');
+
+    let bound: ReturnType<typeof bindSavedQuery>;
+    try {
+      bound = bindSavedQuery(savedQueries.get(args.name), args.params);
+    } catch (error) {
+      logger.error('Failed to run saved query:', error instanceof Error ? error.message : String(error));
+      return {
+        content: [{ type: "text", text: stringifyResponse({ error: error instanceof Error ? error.message : String(error) }) }],
+        isError: true
+      };
+    }
+
+    // Run through tailpipe_query so read-only checks, paging, caching,
+    // serialization and history are exactly the same
+    const { name: _name, params: _params, ...options } = args;
+    return (queryTool.handler as QueryHandler)(db, { ...options, sql: bound.sql, params: bound.params }, context);
+  }
+};
@@ -0,0 +1,36 @@
+import type { Tool } from "@modelcontextprotocol/sdk/types.js";
+import { logger } from "../services/logger.js";
+import { savedQueries } from "../services/savedQueries.js";
+import { stringifyResponse } from '../utils/format.js';
+
+export const tool: Tool = {
+  name: "tailpipe_saved_query_show",
+  description: `Show a saved query from the local query library, including its SQL, parameters and default values.`,
+  inputSchema: {
+    type: "object",
+    properties: {
+      name: {
+        type: "string",
+        description: "Name of the saved query to show"
+      }
+    },
+    required: ["name"],
+    additionalProperties: false
+  },
+  handler: async (args: { name: string }) => {
+    logger.debug('Executing saved_query_show tool');
+
+    try {
+      return {
+        content: [{ type: "text", text: stringifyResponse({ saved_query: savedQueries.get(args.name) }) }],
+        isError: false
+      };
+    } catch (error) {
+      logger.error('Failed to show saved query:', error instanceof Error ? error.message : String(error));
+      return {
+        content: [{ type: "text", text: stringifyResponse({ error: error instanceof Error ? error.message : String(error) }) }],
+        isError: true
+      };
+    }
+  }
+};
@@ -0,0 +1,211 @@
+import type { Tool } from "@modelcontextprotocol/sdk/types.js";
+import { logger } from "../services/logger.js";
+import { DatabaseService, QueryCancelledError } from "../services/database.js";
+import { describeCatalogTable, listCatalogColumns } from "../services/catalog.js";
+import { stringifyResponse } from '../utils/format.js';
+import { qualifiedTableName } from '../utils/sql.js';
+import { RESPONSE_MAX_BYTES, countItemsWithinBudget } from '../utils/budget.js';
+import { serializeValue } from '../utils/serialize.js';
+import type { ToolContext } from '../types/index.js';
+
+type Granularity = 'day' | 'hour';
+
+const GRANULARITIES: Granularity[] = ['day', 'hour'];
+
+// Tailpipe partitions log files by these columns
+const TIME_COLUMNS = ['tp_date', 'tp_timestamp'];
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+interface CoverageGap {
+  // First and last day with no rows, inclusive
+  start: string;
+  end: string;
+  days: number;
+}
+
+interface TableCoverage {
+  table: string;
+  row_count: number;
+  first_timestamp: unknown;
+  last_timestamp: unknown;
+  histogram: Array<{ bucket: string; row_count: number }>;
+  // Number of earliest buckets left out of the histogram to fit the response budget
+  histogram_buckets_dropped?: number;
+  gaps: CoverageGap[];
+  gap_days: number;
+}
+
+/**
+ * Finds the runs of days between the first and last covered day that have no rows
+ * @param days The days with rows, as sorted YYYY-MM-DD strings
+ */
+function findGaps(days: string[]): CoverageGap[] {
+  const gaps: CoverageGap[] = [];
+  for (let i = 1; i < days.length; i++) {
+    const previous = Date.parse(`${days[i - 1]}T00:00:00Z`);
+    const missing = Math.round((Date.parse(`${days[i]}T00:00:00Z`) - previous) / DAY_MS) - 1;
+    if (missing > 0) {
+      gaps.push({
+        start: new Date(previous + DAY_MS).toISOString().slice(0, 10),
+        end: new Date(previous + missing * DAY_MS).toISOString().slice(0, 10),
+        days: missing
+      });
+    }
+  }
+  return gaps;
+}
+
+/**
+ * Fits the histograms into the response budget, giving every table an equal
+ * share and keeping each histogram's latest buckets. Row counts, timestamps
+ * and gaps still describe the whole table.
+ */
+function capHistograms(coverage: TableCoverage[], maxBytes: number = RESPONSE_MAX_BYTES): TableCoverage[] {
+  if (maxBytes <= 0 || coverage.length === 0) {
+    return coverage;
+  }
+
+  const share = Math.floor(maxBytes / coverage.length);
+  return coverage.map(table => {
+    // Leave room for the rest of the table's entry, including the drop count
+    const reserved = Buffer.byteLength(JSON.stringify({ ...table, histogram: [], histogram_buckets_dropped: table.histogram.length }));
+    const latest = [...table.histogram].reverse();
+    const kept = Math.min(countItemsWithinBudget(latest, share - reserved + 2), latest.length);
+    if (kept === latest.length) {
+      return table;
+    }
+    return { ...table, histogram: latest.slice(0, kept).reverse(), histogram_buckets_dropped: latest.length - kept };
+  });
+}
+
+/**
+ * Reads a table's time coverage with a single grouped scan
+ */
+async function measureCoverage(db: DatabaseService, table: { catalog: string; schema: string; name: string }, granularity: Granularity, window: { start?: string; end?: string }, signal?: AbortSignal): Promise<TableCoverage> {
+  const bucket = granularity === 'day'
+    ? `strftime(tp_date, '%Y-%m-%d')`
+    : `strftime(date_trunc('hour', tp_timestamp), '%Y-%m-%dT%H:00:00')`;
+
+  // Filter on tp_date as well as tp_timestamp so only the window's partitions are read
+  const conditions: string[] = [];
+  const params: unknown[] = [];
+  if (window.start) {
+    conditions.push('tp_date >= CAST(CAST(? AS TIMESTAMP) AS DATE)', 'tp_timestamp >= CAST(? AS TIMESTAMP)');
+    params.push(window.start, window.start);
+  }
+  if (window.end) {
+    conditions.push('tp_date <= CAST(CAST(? AS TIMESTAMP) AS DATE)', 'tp_timestamp < CAST(? AS TIMESTAMP)');
+    params.push(window.end, window.end);
+  }
+
+  const rows = await db.executeQuery(
+    `SELECT ${bucket} AS bucket, count(*) AS row_count, min(tp_timestamp) AS first_timestamp, max(tp_timestamp) AS last_timestamp
+     FROM ${qualifiedTableName(table)}
+     ${conditions.length > 0 ? `WHERE ${conditions.join(' AND ')}` : ''}
+     GROUP BY bucket
+     ORDER BY bucket`,
+    params,
+    { signal }
+  );
+
+  const histogram = rows.map(row => ({ bucket: String(row.bucket), row_count: Number(row.row_count) }));
+  const gaps = findGaps([...new Set(histogram.map(entry => entry.bucket.slice(0, 10)))]);
+
+  return {
+    table: table.name,
+    row_count: histogram.reduce((total, entry) => total + entry.row_count, 0),
+    first_timestamp: rows.length > 0 ? serializeValue(rows[0].first_timestamp, 'TIMESTAMP') : null,
+    last_timestamp: rows.length > 0 ? serializeValue(rows[rows.length - 1].last_timestamp, 'TIMESTAMP') : null,
+    histogram,
+    gaps,
+    gap_days: gaps.reduce((total, gap) => total + gap.days, 0)
+  };
+}
+
+/**
+ * Gets the tables to measure: the named table, or every table partitioned by
+ * tp_date and tp_timestamp
+ * @throws Error if the named table does not exist or is not partitioned by time
+ */
+async function coverageTables(db: DatabaseService, name: string | undefined, signal?: AbortSignal): Promise<Array<{ catalog: string; schema: string; name: string }>> {
+  if (name) {
+    const table = await describeCatalogTable(db, name, { signal });
+    const missing = TIME_COLUMNS.filter(column => !table.columns.some(c => c.name === column));
+    if (missing.length > 0) {
+      throw new Error(`Table ${table.name} has no ${missing.join(' or ')} column, so its time coverage cannot be measured.`);
+    }
+    return [table];
+  }
+
+  const columns = new Map<string, { catalog: string; schema: string; name: string; time: Set<string> }>();
+  for (const column of await listCatalogColumns(db, { signal })) {
+    const key = `${column.catalog}.${column.schema}.${column.table}`;
+    const entry = columns.get(key) ?? { catalog: column.catalog, schema: column.schema, name: column.table, time: new Set<string>() };
+    if (TIME_COLUMNS.includes(column.name)) {
+      entry.time.add(column.name);
+    }
+    columns.set(key, entry);
+  }
+  return [...columns.values()].filter(table => table.time.size === TIME_COLUMNS.length);
+}
+
+export const tool: Tool = {
+  name: "tailpipe_table_coverage",
+  description: `Check which time ranges a table has logs for before investigating an incident window. For one table, or every Tailpipe table when none is given, returns the first and last tp_timestamp, the total row count, a per-day (from tp_date) or per-hour row count histogram, and the gaps: runs of days inside the covered range with no rows at all. Long histograms keep their latest buckets, with histogram_buckets_dropped giving the number left out. Pass start and end to measure only an incident window, which also keeps the scan to that window's partitions.`,
+  inputSchema: {
+    type: "object",
+    properties: {
+      table: {
+        type: "string",
+        description: "Name of the table to measure. Defaults to every table with tp_date and tp_timestamp columns."
+      },
+      granularity: {
+        type: "string",
+        enum: GRANULARITIES,
+        description: "Histogram bucket size: 'day' (the default) or 'hour'."
+      },
+      start: {
+        type: "string",
+        description: "Only count rows with tp_timestamp at or after this time, e.g. '2024-03-01' or '2024-03-01T12:00:00Z'."
+      },
+      end: {
+        type: "string",
+        description: "Only count rows with tp_timestamp before this time."
+      }
+    },
+    additionalProperties: false
+  },
+  handler: async (db: DatabaseService, args: { table?: string; granularity?: Granularity; start?: string; end?: string }, context: ToolContext = {}) => {
+    logger.debug('Executing table_coverage tool');
+
+    try {
+      const granularity = args.granularity ?? 'day';
+      const tables = await coverageTables(db, args.table, context.signal);
+
+      const coverage: TableCoverage[] = [];
+      for (const table of tables) {
+        coverage.push(await measureCoverage(db, table, granularity, args, context.signal));
+        context.sendProgress?.(coverage.length, `Measured ${coverage.length} of ${tables.length} tables`);
+      }
+
+      return {
+        content: [{ type: "text", text: stringifyResponse({ granularity, tables: capHistograms(coverage) }, { budgeted: true }) }],
+        isError: false
+      };
+    } catch (error) {
+      if (error instanceof QueryCancelledError) {
+        return {
+          content: [{ type: "text", text: stringifyResponse({ error: error.message, cancelled: true, reason: error.reason }) }],
+          isError: true
+        };
+      }
+
+      logger.error('Failed to measure table coverage:', error instanceof Error ? error.message : String(error));
+      return {
+        content: [{ type: "text", text: stringifyResponse({ error: error instanceof Error ? error.message : String(error) }) }],
+        isError: true
+      };
+    }
+  }
+};
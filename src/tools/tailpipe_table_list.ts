@@ -3,6 +3,9 @@ import { logger } from "../services/logger.js";
 import { executeCommand, formatCommandError } from "../utils/command.js";
 import { buildTailpipeCommand, getTailpipeEnv } from "../utils/tailpipe.js";
 import { formatListResult } from "../utils/format.js";
+import { DatabaseService } from "../services/database.js";
+import { SCHEMA_SOURCES, listCatalogTables, withSchemaFallback, type CatalogTable, type SchemaSource } from "../services/catalog.js";
+import type { ToolContext } from "../types/index.js";
 
 interface Table {
   name: string;
@@ -33,23 +36,37 @@ function parseTables(output: string): Table[] {
 
 export const tool: Tool = {
   name: "tailpipe_table_list",
-  description: `List all available Tailpipe tables, including their schemas, descriptions, and column counts. Use tailpipe_table_show for detailed information about specific tables.`,
+  description: `List all available Tailpipe tables, including their schemas, descriptions, and column counts. Use tailpipe_table_show for detailed information about specific tables. Tables come from the Tailpipe CLI, or from the live DuckDB session when the CLI is unavailable or \`source\` is 'duckdb'; the response's \`source\` field says which one answered.`,
   inputSchema: {
     type: "object",
-    properties: {},
+    properties: {
+      source: {
+        type: "string",
+        enum: SCHEMA_SOURCES,
+        description: "Where to look tables up first: 'cli' (tailpipe table list, the default) or 'duckdb' (the live session's information_schema). The other source is used if the first one fails."
+      },
+      row_counts: {
+        type: "boolean",
+        description: "Count the rows of every table. Only the DuckDB source can count rows, so this implies source 'duckdb'. Defaults to false."
+      }
+    },
     additionalProperties: false
   },
-  handler: async () => {
+  handler: async (db: DatabaseService, args: { source?: SchemaSource; row_counts?: boolean } = {}, context: ToolContext = {}) => {
     logger.debug('Executing table_list tool');
     const cmd = buildTailpipeCommand('table list', { output: 'json' });
     
     try {
-      const output = executeCommand(cmd, { env: getTailpipeEnv() });
-      const tables = parseTables(output);
-      return formatListResult(tables, 'tables', cmd);
+      const prefer = args.row_counts ? 'duckdb' : args.source ?? 'cli';
+      const { result: tables, source, fallback_reason } = await withSchemaFallback<Array<Table | CatalogTable>>(prefer, async from =>
+        from === 'cli'
+          ? parseTables(executeCommand(cmd, { env: getTailpipeEnv() }))
+          : listCatalogTables(db, { rowCounts: args.row_counts, signal: context.signal })
+      );
+      return formatListResult(tables, 'tables', cmd, { source, ...(fallback_reason && { fallback_reason }) });
     } catch (error) {
       logger.error('Failed to execute table_list tool:', error instanceof Error ? error.message : String(error));
       return formatCommandError(error, cmd);
     }
   }
-}; 
\ No newline at end of file
+};
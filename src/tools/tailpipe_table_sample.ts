@@ -0,0 +1,163 @@
+import type { Tool } from "@modelcontextprotocol/sdk/types.js";
+import { logger } from "../services/logger.js";
+import { DatabaseService, QueryCancelledError } from "../services/database.js";
+import { describeCatalogTable, type CatalogTableDetails } from "../services/catalog.js";
+import { stringifyResponse } from '../utils/format.js';
+import { qualifiedTableName } from '../utils/sql.js';
+import { fitPageToBudget } from '../utils/budget.js';
+import { progressReporter, runQuery } from './tailpipe_query.js';
+import type { ToolContext } from '../types/index.js';
+
+type SampleMode = 'latest' | 'random' | 'stratified';
+
+const SAMPLE_MODES: SampleMode[] = ['latest', 'random', 'stratified'];
+
+// Default and maximum number of rows returned
+const DEFAULT_SAMPLE_ROWS = 10;
+const MAX_SAMPLE_ROWS = 100;
+
+interface SampleArgs {
+  table: string;
+  mode?: SampleMode;
+  rows?: number;
+  start?: string;
+  end?: string;
+  seed?: number;
+}
+
+/**
+ * Checks the table has the columns a sampling mode and time window need
+ * @throws Error naming the missing column
+ */
+function assertSampleColumns(table: CatalogTableDetails, mode: SampleMode, windowed: boolean): void {
+  const columns = new Set(table.columns.map(column => column.name));
+
+  if ((mode === 'latest' || windowed) && !columns.has('tp_timestamp')) {
+    throw new Error(`Table ${table.name} has no tp_timestamp column, which mode 'latest' and the start and end window need. Use mode 'random' without a window instead.`);
+  }
+  if (mode === 'stratified' && !columns.has('tp_index')) {
+    throw new Error(`Table ${table.name} has no tp_index column to stratify by. Use mode 'latest' or 'random' instead.`);
+  }
+}
+
+/**
+ * Builds the sampling query for a table the catalog has confirmed exists
+ * @param table The table, as described by the catalog
+ * @param args The tool arguments
+ * @returns The SQL and the values bound to its placeholders
+ */
+function buildSampleSql(table: CatalogTableDetails, args: SampleArgs): { sql: string; params: unknown[] } {
+  const mode = args.mode ?? 'latest';
+  const rows = args.rows ?? DEFAULT_SAMPLE_ROWS;
+  const source = qualifiedTableName(table);
+
+  const conditions: string[] = [];
+  const params: unknown[] = [];
+  if (args.start) {
+    conditions.push('tp_timestamp >= CAST(? AS TIMESTAMP)');
+    params.push(args.start);
+  }
+  if (args.end) {
+    conditions.push('tp_timestamp < CAST(? AS TIMESTAMP)');
+    params.push(args.end);
+  }
+  const where = conditions.length > 0 ? ` WHERE ${conditions.join(' AND ')}` : '';
+
+  switch (mode) {
+    case 'latest':
+      return { sql: `SELECT * FROM ${source}${where} ORDER BY tp_timestamp DESC LIMIT ${rows}`, params };
+    case 'random':
+      // USING SAMPLE is applied before WHERE, so filter in a subquery first
+      return {
+        sql: `SELECT * FROM (SELECT * FROM ${source}${where}) AS tailpipe_sample USING SAMPLE reservoir(${rows} ROWS)`
+          + (args.seed !== undefined ? ` REPEATABLE (${args.seed})` : ''),
+        params
+      };
+    case 'stratified':
+      // Rank rows randomly within each tp_index, then take the first-ranked row
+      // of every index before any index gets a second one
+      return {
+        sql: `SELECT * EXCLUDE (tailpipe_sample_rank) FROM (`
+          + `SELECT *, row_number() OVER (PARTITION BY tp_index ORDER BY random()) AS tailpipe_sample_rank FROM ${source}${where}`
+          + `) AS tailpipe_sample ORDER BY tailpipe_sample_rank, tp_index LIMIT ${rows}`,
+        params
+      };
+  }
+}
+
+export const tool: Tool = {
+  name: "tailpipe_table_sample",
+  description: `Get a few representative rows from a table to see what real data looks like before writing a query. Rows can be the latest by tp_timestamp, a random sample, or stratified across tp_index values (for example one row per account or region before any gets a second), optionally within a tp_timestamp window. Rows are serialized and capped in bytes the same way as tailpipe_query results.`,
+  inputSchema: {
+    type: "object",
+    properties: {
+      table: {
+        type: "string",
+        description: "Name of the table or view to sample. Must exist in the current DuckDB session."
+      },
+      mode: {
+        type: "string",
+        enum: SAMPLE_MODES,
+        description: "How rows are chosen: 'latest' (most recent tp_timestamp first, the default), 'random' (DuckDB USING SAMPLE), or 'stratified' (random rows spread evenly across tp_index values)."
+      },
+      rows: {
+        type: "integer",
+        minimum: 1,
+        maximum: MAX_SAMPLE_ROWS,
+        description: `Number of rows to return. Defaults to ${DEFAULT_SAMPLE_ROWS}.`
+      },
+      start: {
+        type: "string",
+        description: "Only sample rows with tp_timestamp at or after this time, e.g. '2024-03-01' or '2024-03-01T12:00:00Z'."
+      },
+      end: {
+        type: "string",
+        description: "Only sample rows with tp_timestamp before this time."
+      },
+      seed: {
+        type: "integer",
+        minimum: 0,
+        description: "Seed for mode 'random', so the same rows are returned each time."
+      }
+    },
+    required: ["table"],
+    additionalProperties: false
+  },
+  handler: async (db: DatabaseService, args: SampleArgs, context: ToolContext = {}) => {
+    logger.debug('Executing table_sample tool');
+
+    try {
+      const mode = args.mode ?? 'latest';
+      const table = await describeCatalogTable(db, args.table, { signal: context.signal });
+      assertSampleColumns(table, mode, !!(args.start || args.end));
+
+      const { sql, params } = buildSampleSql(table, args);
+      const result = await runQuery(db, sql, params, true, {
+        signal: context.signal,
+        onProgress: progressReporter(context)
+      });
+
+      const metadata = { table: table.name, mode, columns: result.columns ?? [] };
+      const debug = { sql };
+      const page = fitPageToBudget({ rows: result.rows, row_count: result.rows.length, truncated: false }, { ...metadata, debug }, undefined);
+
+      return {
+        content: [{ type: "text", text: stringifyResponse({ ...metadata, ...page, debug }, { budgeted: true }) }],
+        isError: false
+      };
+    } catch (error) {
+      if (error instanceof QueryCancelledError) {
+        return {
+          content: [{ type: "text", text: stringifyResponse({ error: error.message, cancelled: true, reason: error.reason }) }],
+          isError: true
+        };
+      }
+
+      logger.error('Failed to sample table:', error instanceof Error ? error.message : String(error));
+      return {
+        content: [{ type: "text", text: stringifyResponse({ error: error instanceof Error ? error.message : String(error) }) }],
+        isError: true
+      };
+    }
+  }
+};
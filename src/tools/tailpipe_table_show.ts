@@ -2,32 +2,62 @@ import type { Tool } from "@modelcontextprotocol/sdk/types.js";
 import { logger } from "../services/logger.js";
 import { executeCommand, formatCommandError } from "../utils/command.js";
 import { buildTailpipeCommand, getTailpipeEnv } from "../utils/tailpipe.js";
-import { validateAndFormat } from "../utils/format.js";
+import { stringifyResponse } from "../utils/format.js";
+import { DatabaseService } from "../services/database.js";
+import { SCHEMA_SOURCES, describeCatalogTable, withSchemaFallback, type SchemaSource } from "../services/catalog.js";
+import type { ToolContext } from "../types/index.js";
 
 export const tool: Tool = {
   name: "tailpipe_table_show",
-  description: `Get detailed information about a specific Tailpipe table, including its schema, column definitions, data types, and descriptions.`,
+  description: `Get detailed information about a specific Tailpipe table, including its schema, column definitions, data types, and descriptions. Details come from the Tailpipe CLI, or from the live DuckDB session (column names, types and nullability) when the CLI is unavailable or \`source\` is 'duckdb'; the response's \`source\` field says which one answered.`,
   inputSchema: {
     type: "object",
     properties: {
       name: {
         type: "string",
         description: "Name of the table to show details for"
+      },
+      source: {
+        type: "string",
+        enum: SCHEMA_SOURCES,
+        description: "Where to look the table up first: 'cli' (tailpipe table show, the default) or 'duckdb' (the live session's information_schema). The other source is used if the first one fails."
+      },
+      row_count: {
+        type: "boolean",
+        description: "Count the table's rows. Only the DuckDB source can count rows, so this implies source 'duckdb'. Defaults to false."
       }
     },
     required: ["name"],
     additionalProperties: false
   },
-  handler: async (args: { name: string }) => {
+  handler: async (db: DatabaseService, args: { name: string; source?: SchemaSource; row_count?: boolean }, context: ToolContext = {}) => {
     logger.debug('Executing table_show tool');
     const cmd = buildTailpipeCommand(`table show ${args.name}`, { output: 'json' });
     
     try {
-      const output = executeCommand(cmd, { env: getTailpipeEnv() });
-      return validateAndFormat(output, cmd, 'table');
+      const prefer = args.row_count ? 'duckdb' : args.source ?? 'cli';
+      const { result: table, source, fallback_reason } = await withSchemaFallback<unknown>(prefer, async from =>
+        from === 'cli'
+          ? JSON.parse(executeCommand(cmd, { env: getTailpipeEnv() }))
+          : describeCatalogTable(db, args.name, { rowCount: args.row_count, signal: context.signal })
+      );
+
+      return {
+        content: [{
+          type: "text",
+          text: stringifyResponse({
+            table,
+            source,
+            ...(fallback_reason && { fallback_reason }),
+            debug: {
+              command: cmd
+            }
+          })
+        }]
+      };
     } catch (error) {
       logger.error('Failed to execute table_show tool:', error instanceof Error ? error.message : String(error));
       return formatCommandError(error, cmd);
     }
   }
-}; 
\ No newline at end of file
+};
@@ -7,19 +7,34 @@ declare module 'duckdb' {
     constructor(path: string, options?: DatabaseOptions);
     connect(): Connection;
     close(callback: (err: Error | null) => void): void;
+    interrupt(): void;
+  }
+
+  interface TypeInfo {
+    id: string;
+    sql_type: string;
+    alias?: string;
+  }
+
+  interface ColumnInfo {
+    name: string;
+    type: TypeInfo;
   }
 
   interface Connection {
+    prepare(sql: string, callback?: (err: Error | null, statement: Statement) => void): Statement;
     all(sql: string, paramsOrCallback: any[] | ((err: Error | null, rows: any[]) => void), callback?: (err: Error | null, rows: any[]) => void): void;
     run(sql: string, paramsOrCallback: any[] | ((err: Error | null) => void), callback?: (err: Error | null) => void): void;
+    stream(sql: string, ...params: any[]): AsyncGenerator<Record<string, any>>;
     close(): void;
   }
 
   interface Statement {
     all(params: any[], callback: (err: Error | null, rows: any[]) => void): void;
     run(params: any[], callback: (err: Error | null) => void): void;
-    finalize(callback: (err: Error | null) => void): void;
+    finalize(callback?: (err: Error | null) => void): void;
+    columns(): ColumnInfo[] | null;
   }
 
-  export { Database, Connection, Statement };
+  export { Database, Connection, Statement, ColumnInfo, TypeInfo };
 } 
\ No newline at end of file
@@ -5,4 +5,14 @@ export enum PromptName {
 export interface QueryResult {
   content: { type: string; text: string }[];
   isError: boolean;
-} 
\ No newline at end of file
+}
+
+/**
+ * Request-scoped context passed to database tool handlers
+ */
+export interface ToolContext {
+  // Aborted when the client cancels the tool call
+  signal?: AbortSignal;
+  // Sends an MCP progress notification, only set when the client asked for progress
+  sendProgress?: (progress: number, message?: string) => void;
+}
@@ -1,8 +1,17 @@
 import type { ResourceTemplate as MCPResourceTemplate } from "@modelcontextprotocol/sdk/types.js";
+import { DatabaseService } from "../services/database.js";
 
 export interface ResourceTemplate extends MCPResourceTemplate {
   name: string;
   description: string;
-  uri: string;
+  uriTemplate: string;
   type: string;
-} 
\ No newline at end of file
+  // Reads the resource at a URI matching the template, given the URI's template variables
+  handler: (db: DatabaseService, variables: Record<string, string>, uri: string) => Promise<{
+    contents: Array<{
+      uri: string;
+      mimeType: string;
+      text: string;
+    }>;
+  }>;
+}
@@ -0,0 +1,267 @@
+/**
+ * Byte budgets for tool responses
+ *
+ * Long string values are clipped with a marker saying how many bytes were
+ * cut, and list items or rows are dropped once a response reaches its byte
+ * budget. Sizes are measured as UTF-8 encoded JSON.
+ */
+
+import { encodeCursor, type Page } from "./pagination.js";
+
+// Default maximum size of a tool response (256 KiB)
+const DEFAULT_RESPONSE_MAX_BYTES = 256 * 1024;
+
+// Default maximum size of a single string value (16 KiB)
+const DEFAULT_VALUE_MAX_BYTES = 16 * 1024;
+
+// Number of clipped values described individually in the truncation metadata
+const MAX_REPORTED_CLIPS = 20;
+
+export const RESPONSE_MAX_BYTES = process.env.TAILPIPE_MCP_RESPONSE_MAX_BYTES
+  ? parseInt(process.env.TAILPIPE_MCP_RESPONSE_MAX_BYTES, 10)
+  : DEFAULT_RESPONSE_MAX_BYTES;
+
+export const VALUE_MAX_BYTES = process.env.TAILPIPE_MCP_VALUE_MAX_BYTES
+  ? parseInt(process.env.TAILPIPE_MCP_VALUE_MAX_BYTES, 10)
+  : DEFAULT_VALUE_MAX_BYTES;
+
+export interface ClippedValue {
+  // Location of the value in the response, e.g. rows[3].request_parameters
+  path: string;
+  original_bytes: number;
+  kept_bytes: number;
+}
+
+export interface DroppedItems {
+  // Location of the list in the response, e.g. tables
+  path: string;
+  kept: number;
+  dropped: number;
+}
+
+export interface TruncationInfo {
+  max_bytes: number;
+  // The first clipped values, with clipped_value_count giving the total
+  clipped_values?: ClippedValue[];
+  clipped_value_count?: number;
+  dropped_items?: DroppedItems[];
+  // How to get the values that were cut
+  hint: string;
+}
+
+function byteLength(value: unknown): number {
+  return Buffer.byteLength(JSON.stringify(value) ?? '');
+}
+
+function isPlainObject(value: unknown): value is Record<string, unknown> {
+  return !!value && typeof value === 'object' && Object.getPrototypeOf(value) === Object.prototype;
+}
+
+/**
+ * Clips a string to a number of UTF-8 bytes, without splitting a character,
+ * and appends a marker saying how many bytes were cut
+ * @param value The string to clip
+ * @param maxBytes Maximum number of bytes kept
+ * @returns The clipped string and the number of bytes kept, or undefined if the string fits
+ */
+export function clipString(value: string, maxBytes: number): { text: string; kept_bytes: number } | undefined {
+  const bytes = Buffer.from(value, 'utf8');
+  if (bytes.length <= maxBytes) {
+    return undefined;
+  }
+
+  // Back up to the start of a UTF-8 sequence
+  let end = maxBytes;
+  while (end > 0 && (bytes[end] & 0xc0) === 0x80) {
+    end--;
+  }
+
+  return {
+    text: `${bytes.subarray(0, end).toString('utf8')}…[truncated ${bytes.length - end} of ${bytes.length} bytes]`,
+    kept_bytes: end
+  };
+}
+
+/**
+ * Clips every string longer than maxBytes in a JSON value, recording where
+ * each clipped string was
+ * @param value The value to clip
+ * @param maxBytes Maximum number of bytes kept per string
+ * @param path Location of the value, used in the clipped value records
+ * @param clipped Receives a record for every clipped string
+ * @returns A copy of the value with long strings clipped
+ */
+export function clipStrings(value: unknown, maxBytes: number, path: string, clipped: ClippedValue[]): unknown {
+  if (typeof value === 'string') {
+    const clip = clipString(value, maxBytes);
+    if (!clip) {
+      return value;
+    }
+    clipped.push({ path, original_bytes: Buffer.byteLength(value), kept_bytes: clip.kept_bytes });
+    return clip.text;
+  }
+  if (Array.isArray(value)) {
+    return value.map((item, index) => clipStrings(item, maxBytes, `${path}[${index}]`, clipped));
+  }
+  if (isPlainObject(value)) {
+    return Object.fromEntries(Object.entries(value).map(([key, item]) =>
+      [key, clipStrings(item, maxBytes, path ? `${path}.${key}` : key, clipped)]
+    ));
+  }
+  return value;
+}
+
+/**
+ * Builds the truncation metadata for a response, or undefined if nothing was cut
+ */
+export function describeTruncation(maxBytes: number, clipped: ClippedValue[], dropped: DroppedItems[], hint: string): TruncationInfo | undefined {
+  if (clipped.length === 0 && dropped.length === 0) {
+    return undefined;
+  }
+
+  return {
+    max_bytes: maxBytes,
+    ...(clipped.length > 0 && {
+      clipped_values: clipped.slice(0, MAX_REPORTED_CLIPS),
+      clipped_value_count: clipped.length
+    }),
+    ...(dropped.length > 0 && { dropped_items: dropped }),
+    hint
+  };
+}
+
+/**
+ * Keeps the leading items of a list that fit in a byte budget. At least one
+ * item is always kept so a caller paging through the list can make progress.
+ * @param items The items, already clipped
+ * @param maxBytes Bytes available for the list, including brackets and separators
+ * @returns The number of items to keep
+ */
+export function countItemsWithinBudget(items: unknown[], maxBytes: number): number {
+  let used = 2;
+  for (let i = 0; i < items.length; i++) {
+    used += byteLength(items[i]) + (i > 0 ? 1 : 0);
+    if (used > maxBytes) {
+      return Math.max(i, 1);
+    }
+  }
+  return items.length;
+}
+
+/**
+ * Fits a response object into a byte budget: strings longer than
+ * VALUE_MAX_BYTES are clipped, then items are dropped from the end of its
+ * largest top-level lists until it fits. A truncation field describing what
+ * was cut is added to the response.
+ * @param data The response object
+ * @param maxBytes The byte budget
+ * @returns The response, unchanged if it already fits
+ */
+export function fitToBudget(data: Record<string, unknown>, maxBytes: number = RESPONSE_MAX_BYTES): Record<string, unknown> {
+  if (maxBytes <= 0 || byteLength(data) <= maxBytes) {
+    return data;
+  }
+
+  const clipped: ClippedValue[] = [];
+  const result = (VALUE_MAX_BYTES > 0 ? clipStrings(data, VALUE_MAX_BYTES, '', clipped) : { ...data }) as Record<string, unknown>;
+  const dropped: DroppedItems[] = [];
+  const hint = 'Clipped strings end with a marker giving the number of bytes cut. Request fewer or narrower items, '
+    + 'or raise TAILPIPE_MCP_RESPONSE_MAX_BYTES, to get the full values.';
+
+  const lists = Object.keys(result)
+    .filter(key => Array.isArray(result[key]))
+    .sort((a, b) => byteLength(result[b]) - byteLength(result[a]));
+
+  for (const key of lists) {
+    const withTruncation = (): Record<string, unknown> =>
+      ({ ...result, truncation: describeTruncation(maxBytes, clipped, dropped, hint) });
+    if (byteLength(withTruncation()) <= maxBytes) {
+      break;
+    }
+
+    const items = result[key] as unknown[];
+    // Record the drop first so the metadata is part of the size being budgeted
+    const entry: DroppedItems = { path: key, kept: items.length, dropped: items.length };
+    dropped.push(entry);
+    result[key] = [];
+    const available = maxBytes - byteLength(withTruncation()) + 2;
+
+    const kept = Math.min(countItemsWithinBudget(items, available), items.length);
+    result[key] = items.slice(0, kept);
+    entry.kept = kept;
+    entry.dropped = items.length - kept;
+    if (entry.dropped === 0) {
+      dropped.pop();
+    }
+  }
+
+  const truncation = describeTruncation(maxBytes, clipped, dropped, hint);
+  return truncation ? { ...result, truncation } : result;
+}
+
+export interface PageCursor {
+  // The query being paged
+  sql: string;
+  // Offset of the first row in the page
+  offset: number;
+  // The parameter values bound to the query
+  params: unknown[];
+}
+
+/**
+ * Fits a page of query results into a byte budget. String values longer than
+ * VALUE_MAX_BYTES are clipped, and rows that do not fit are dropped from the
+ * end of the page. When the page can be resumed, next_cursor points at the
+ * first dropped row.
+ * @param page The page of serialized rows
+ * @param metadata The rest of the response, such as the columns, counted against the budget
+ * @param cursor The query being paged, or undefined if it cannot be resumed with a cursor
+ * @param maxBytes The byte budget
+ * @returns The page, with a truncation field when anything was cut
+ */
+export function fitPageToBudget<T extends Record<string, unknown>>(
+  page: Page<T>,
+  metadata: Record<string, unknown>,
+  cursor: PageCursor | undefined,
+  maxBytes: number = RESPONSE_MAX_BYTES
+): Page<T> & { truncation?: TruncationInfo } {
+  const clipped: ClippedValue[] = [];
+  const rows = VALUE_MAX_BYTES > 0
+    ? page.rows.map((row, index) => clipStrings(row, VALUE_MAX_BYTES, `rows[${index}]`, clipped) as T)
+    : page.rows;
+
+  const nextCursor = (kept: number) => cursor && encodeCursor(cursor.sql, cursor.offset + kept, cursor.params);
+  const hint = (dropped: boolean) => [
+    ...(clipped.length > 0 ? ['Clipped values end with a marker giving the number of bytes cut; select a clipped column on its own with substr() to read it in parts, or write the full result to a file with tailpipe_query_export.'] : []),
+    ...(dropped ? [cursor
+      ? 'Rows were dropped to stay within the response size budget; pass next_cursor as cursor to fetch them.'
+      : 'Rows were dropped to stay within the response size budget; run the statement on its own to page through them.'] : [])
+  ].join(' ');
+
+  let kept = rows.length;
+  if (maxBytes > 0) {
+    // Leave room for the truncation metadata and cursor as if rows were dropped
+    const reserved = byteLength({
+      ...metadata,
+      ...page,
+      rows: [],
+      next_cursor: nextCursor(rows.length),
+      truncation: describeTruncation(maxBytes, clipped, [{ path: 'rows', kept: rows.length, dropped: rows.length }], hint(true))
+    });
+    kept = Math.min(countItemsWithinBudget(rows, maxBytes - reserved + 2), rows.length);
+  }
+
+  const dropped = kept < rows.length ? [{ path: 'rows', kept, dropped: rows.length - kept }] : [];
+  const truncation = describeTruncation(maxBytes, clipped, dropped, hint(dropped.length > 0));
+  if (!truncation) {
+    return page;
+  }
+
+  return {
+    ...page,
+    rows: rows.slice(0, kept),
+    row_count: kept,
+    ...(dropped.length > 0 && { truncated: true, ...(cursor && { next_cursor: nextCursor(kept) }) }),
+    truncation
+  };
+}
@@ -0,0 +1,100 @@
+/**
+ * Splits text on a separator that is not nested inside parentheses, brackets
+ * or double-quoted identifiers
+ */
+function splitTopLevel(text: string, separator: string): string[] {
+  const parts: string[] = [];
+  let depth = 0;
+  let quoted = false;
+  let start = 0;
+
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i];
+    if (char === '"') {
+      quoted = !quoted;
+    } else if (!quoted && (char === '(' || char === '[')) {
+      depth++;
+    } else if (!quoted && (char === ')' || char === ']')) {
+      depth--;
+    } else if (!quoted && depth === 0 && char === separator) {
+      parts.push(text.slice(start, i).trim());
+      start = i + 1;
+    }
+  }
+
+  parts.push(text.slice(start).trim());
+  return parts.filter(part => part.length > 0);
+}
+
+/**
+ * Gets the fields of a DuckDB STRUCT type, e.g. STRUCT("type" VARCHAR, arn VARCHAR)
+ * @param type The DuckDB type
+ * @returns The field names and types, or undefined if the type is not a STRUCT
+ */
+export function structFields(type: string): Array<{ name: string; type: string }> | undefined {
+  const match = type.trim().match(/^STRUCT\s*\(([\s\S]*)\)$/i);
+  if (!match) {
+    return undefined;
+  }
+
+  return splitTopLevel(match[1], ',').map(field => {
+    const quoted = field.match(/^"((?:[^"]|"")*)"\s+([\s\S]+)$/);
+    if (quoted) {
+      return { name: quoted[1].replace(/""/g, '"'), type: quoted[2].trim() };
+    }
+    const [name, ...rest] = field.split(/\s+/);
+    return { name, type: rest.join(' ') };
+  });
+}
+
+/**
+ * Gets the element type of a DuckDB LIST or ARRAY type, e.g. VARCHAR for VARCHAR[]
+ * @returns The element type, or undefined if the type is not a list
+ */
+export function listElementType(type: string): string | undefined {
+  return type.trim().match(/^([\s\S]+)\[\d*\]$/)?.[1];
+}
+
+/**
+ * Gets the key and value types of a DuckDB MAP type, e.g. MAP(VARCHAR, INTEGER)
+ * @returns The key and value types, or undefined if the type is not a MAP
+ */
+export function mapEntryTypes(type: string): { key: string; value: string } | undefined {
+  const match = type.trim().match(/^MAP\s*\(([\s\S]*)\)$/i);
+  if (!match) {
+    return undefined;
+  }
+
+  const [key, value] = splitTopLevel(match[1], ',');
+  return key && value ? { key, value } : undefined;
+}
+
+export interface ColumnPath {
+  // Column name, followed by STRUCT field names, with [] for list elements
+  path: string;
+  type: string;
+}
+
+/**
+ * Lists a column and every field nested in it. Fields of a STRUCT are named
+ * column.field, and fields of a list of STRUCTs column[].field.
+ * @param name The column name
+ * @param type The column's DuckDB type
+ * @returns The column followed by its nested fields, depth first
+ */
+export function flattenColumnType(name: string, type: string): ColumnPath[] {
+  const paths: ColumnPath[] = [{ path: name, type }];
+
+  let element = type;
+  let prefix = name;
+  for (let inner = listElementType(element); inner; inner = listElementType(element)) {
+    element = inner;
+    prefix += '[]';
+  }
+
+  for (const field of structFields(element) ?? []) {
+    paths.push(...flattenColumnType(`${prefix}.${field.name}`, field.type));
+  }
+
+  return paths;
+}
@@ -0,0 +1,96 @@
+import { tmpdir } from "os";
+import { dirname, extname, isAbsolute, join, relative, resolve, sep } from "path";
+import { existsSync, lstatSync, mkdirSync, realpathSync } from "fs";
+
+export type ExportFormat = 'parquet' | 'csv' | 'jsonl';
+
+export const EXPORT_FORMATS: ExportFormat[] = ['parquet', 'csv', 'jsonl'];
+
+// DuckDB COPY options and file extension for each export format.
+// DuckDB's JSON format writes newline-delimited JSON by default.
+const COPY_FORMATS: Record<ExportFormat, { options: string; extension: string }> = {
+  parquet: { options: 'FORMAT PARQUET', extension: '.parquet' },
+  csv: { options: 'FORMAT CSV, HEADER', extension: '.csv' },
+  jsonl: { options: 'FORMAT JSON', extension: '.jsonl' }
+};
+
+// Extensions of data files, which must match the format being written
+const DATA_EXTENSIONS = [...Object.values(COPY_FORMATS).map(format => format.extension), '.json'];
+
+// Directory exported files are written to; nothing is written outside it
+export const EXPORT_DIR = resolve(process.env.TAILPIPE_MCP_EXPORT_DIR || join(tmpdir(), 'tailpipe-mcp-exports'));
+
+function isWithin(root: string, path: string): boolean {
+  const rel = relative(root, path);
+  return rel !== '' && rel !== '..' && !rel.startsWith(`..${sep}`) && !isAbsolute(rel);
+}
+
+/**
+ * Whether a directory, after following symlinks, is the export root or inside
+ * it. Only the part of the path that already exists is followed.
+ */
+function isInsideRealRoot(realRoot: string, directory: string): boolean {
+  let existing = directory;
+  while (!existsSync(existing) && dirname(existing) !== existing) {
+    existing = dirname(existing);
+  }
+  const real = realpathSync(existing);
+  return real === realRoot || isWithin(realRoot, real);
+}
+
+/**
+ * Resolves the path of an export file inside the export root, creating its
+ * parent directories once the path is known to stay inside the root. A default file name based on the current time is used
+ * when none is given, and the format's extension is added unless the name already has it.
+ * @param filename Optional file name or path relative to the export root
+ * @param format The export format
+ * @param root The export root directory
+ * @returns The absolute path of the file to write
+ * @throws Error if the path would resolve outside the export root, or the
+ *   name has the extension of another format
+ */
+export function resolveExportPath(filename: string | undefined, format: ExportFormat, root: string = EXPORT_DIR): string {
+  const { extension } = COPY_FORMATS[format];
+  const name = filename?.trim() || `tailpipe-export-${new Date().toISOString().replace(/[:.]/g, '-')}`;
+  const current = extname(name).toLowerCase();
+  if (current !== extension && DATA_EXTENSIONS.includes(current)) {
+    throw new Error(`Export file name ${name} has the extension ${current}, which does not match format ${format}. Use ${extension} or leave the extension off.`);
+  }
+  const withExtension = current === extension ? name : `${name}${extension}`;
+
+  const target = resolve(root, withExtension);
+  if (isAbsolute(name) || !isWithin(root, target)) {
+    throw new Error(`Export path must be a relative path inside the export directory: ${name}`);
+  }
+
+  // Follow symlinks so a link inside the root cannot point the export, or the
+  // directories created for it, elsewhere
+  mkdirSync(root, { recursive: true });
+  const realRoot = realpathSync(root);
+  if (!isInsideRealRoot(realRoot, dirname(target))) {
+    throw new Error(`Export path must be a relative path inside the export directory: ${name}`);
+  }
+
+  mkdirSync(dirname(target), { recursive: true });
+  if (!isInsideRealRoot(realRoot, dirname(target))) {
+    throw new Error(`Export path must be a relative path inside the export directory: ${name}`);
+  }
+
+  // DuckDB follows a symlink at the target itself when writing
+  if (lstatSync(target, { throwIfNoEntry: false })?.isSymbolicLink()) {
+    throw new Error(`Export path must not be a symlink: ${name}`);
+  }
+
+  return target;
+}
+
+/**
+ * Builds the DuckDB COPY statement that writes a query's result to a file
+ * @param sql A single SELECT or WITH query
+ * @param path The absolute path of the file to write
+ * @param format The export format
+ * @returns The COPY statement
+ */
+export function buildCopySql(sql: string, path: string, format: ExportFormat): string {
+  return `COPY (${sql}) TO '${path.replace(/'/g, "''")}' (${COPY_FORMATS[format].options})`;
+}
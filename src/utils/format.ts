@@ -1,4 +1,6 @@
 import type { Tool } from "@modelcontextprotocol/sdk/types.js";
+import type { QueryColumn } from "../services/database.js";
+import { RESPONSE_MAX_BYTES, fitToBudget, type TruncationInfo } from "./budget.js";
 
 export interface DatabaseConnection {
   path: string;
@@ -7,12 +9,20 @@ export interface DatabaseConnection {
 }
 
 /**
- * Centralized function for stringifying MCP responses without indentation
+ * Centralized function for stringifying MCP responses without indentation.
+ * Responses larger than the response byte budget have long strings clipped
+ * and list items dropped, with a truncation field saying what was cut.
  * @param data The data to stringify
+ * @param options budgeted skips the budget for responses a tool has already
+ *   fitted, such as pages from fitPageToBudget, so their truncation is kept
  * @returns Stringified data without indentation
  */
-export function stringifyResponse(data: unknown): string {
-  return JSON.stringify(data);
+export function stringifyResponse(data: unknown, options: { budgeted?: boolean } = {}): string {
+  const text = JSON.stringify(data);
+  if (options.budgeted || RESPONSE_MAX_BYTES <= 0 || !data || typeof data !== 'object' || Array.isArray(data) || Buffer.byteLength(text) <= RESPONSE_MAX_BYTES) {
+    return text;
+  }
+  return JSON.stringify(fitToBudget(data as Record<string, unknown>));
 }
 
 export function validateAndFormat(output: string, cmd: string, resourceType: string) {
@@ -37,9 +47,10 @@ export function validateAndFormat(output: string, cmd: string, resourceType: str
  * @param data The data to format (e.g. plugins, tables, partitions)
  * @param key The key to use in the response object (e.g. "plugins", "tables", "partitions")
  * @param cmd The command that was executed
+ * @param extra Additional fields for the response object, placed before debug
  * @returns A formatted tool response
  */
-export function formatListResult<T>(data: T[], key: string, cmd: string): Promise<{
+export function formatListResult<T>(data: T[], key: string, cmd: string, extra: Record<string, unknown> = {}): Promise<{
   content: Array<{
     type: string;
     text: string;
@@ -50,10 +61,98 @@ export function formatListResult<T>(data: T[], key: string, cmd: string): Promis
       type: "text",
       text: stringifyResponse({
         [key]: data,
+        ...extra,
         debug: {
           command: cmd
         }
       })
     }]
   });
-} 
\ No newline at end of file
+}
+
+export type QueryOutputFormat = 'json' | 'columnar' | 'csv' | 'markdown';
+
+export const QUERY_OUTPUT_FORMATS: QueryOutputFormat[] = ['json', 'columnar', 'csv', 'markdown'];
+
+export interface QueryResultPage {
+  columns: QueryColumn[];
+  rows: Record<string, unknown>[];
+  row_count: number;
+  truncated: boolean;
+  next_cursor?: string;
+  cached?: boolean;
+  warnings?: string[];
+  truncation?: TruncationInfo;
+}
+
+/**
+ * Renders a serialized value as text for CSV and Markdown output
+ */
+function valueToText(value: unknown): string {
+  if (value === null || value === undefined) {
+    return '';
+  }
+  if (typeof value === 'object') {
+    return stringifyResponse(value);
+  }
+  return String(value);
+}
+
+function toCsvField(value: unknown): string {
+  const text = valueToText(value);
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+function toMarkdownCell(value: unknown): string {
+  return valueToText(value).replace(/\\/g, '\\\\').replace(/\|/g, '\\|').replace(/\r?\n/g, '<br>');
+}
+
+/**
+ * Formats a page of query results, already fitted to the response budget, as
+ * MCP text content in the requested format. JSON formats include the columns and paging metadata in the same object,
+ * CSV and Markdown are followed by a second content item holding them.
+ * @param page The page of serialized rows and their columns
+ * @param format The output format
+ * @returns The content items for the tool response
+ */
+export function formatQueryResult(page: QueryResultPage, format: QueryOutputFormat = 'json'): Array<{ type: "text"; text: string }> {
+  const { rows, ...metadata } = page;
+  const columns = page.columns.map(column => column.name);
+
+  switch (format) {
+    case 'columnar': {
+      const { columns: columnInfo, ...paging } = metadata;
+      return [{
+        type: "text",
+        text: stringifyResponse({
+          columns: columnInfo,
+          rows: rows.map(row => columns.map(column => row[column])),
+          ...paging
+        }, { budgeted: true })
+      }];
+    }
+    case 'csv': {
+      const lines = [
+        columns.map(toCsvField).join(','),
+        ...rows.map(row => columns.map(column => toCsvField(row[column])).join(','))
+      ];
+      return [
+        { type: "text", text: columns.length > 0 ? lines.join('\n') : '' },
+        { type: "text", text: stringifyResponse(metadata, { budgeted: true }) }
+      ];
+    }
+    case 'markdown': {
+      const lines = columns.length > 0 ? [
+        `| ${columns.map(toMarkdownCell).join(' | ')} |`,
+        `| ${columns.map(() => '---').join(' | ')} |`,
+        ...rows.map(row => `| ${columns.map(column => toMarkdownCell(row[column])).join(' | ')} |`)
+      ] : ['_No rows returned_'];
+      return [
+        { type: "text", text: lines.join('\n') },
+        { type: "text", text: stringifyResponse(metadata, { budgeted: true }) }
+      ];
+    }
+    default:
+      return [{ type: "text", text: stringifyResponse(page, { budgeted: true }) }];
+  }
+}
@@ -0,0 +1,115 @@
+import { createHash } from "node:crypto";
+import { classifySqlStatements, splitSqlStatements } from "./sql.js";
+
+// Default number of rows returned per page (1000)
+const DEFAULT_QUERY_ROW_LIMIT = 1000;
+
+export const QUERY_ROW_LIMIT = process.env.TAILPIPE_MCP_QUERY_ROW_LIMIT
+  ? parseInt(process.env.TAILPIPE_MCP_QUERY_ROW_LIMIT, 10)
+  : DEFAULT_QUERY_ROW_LIMIT;
+
+interface CursorState {
+  // Fingerprint of the query the cursor belongs to
+  q: string;
+  // Offset of the first row of the next page
+  o: number;
+}
+
+export interface Page<T> {
+  rows: T[];
+  row_count: number;
+  truncated: boolean;
+  next_cursor?: string;
+}
+
+/**
+ * Fingerprints a query and its parameters so a cursor can only be used to
+ * resume the query it was issued for
+ */
+function fingerprintQuery(sql: string, params: unknown[]): string {
+  return createHash('sha256').update(JSON.stringify([sql.trim(), params])).digest('hex').slice(0, 16);
+}
+
+/**
+ * Creates an opaque cursor that resumes a query at the given offset
+ * @param sql The query being paged
+ * @param offset Offset of the first row of the next page
+ * @param params The parameter values bound to the query
+ * @returns The encoded cursor
+ */
+export function encodeCursor(sql: string, offset: number, params: unknown[] = []): string {
+  const state: CursorState = { q: fingerprintQuery(sql, params), o: offset };
+  return Buffer.from(JSON.stringify(state)).toString('base64url');
+}
+
+/**
+ * Decodes a cursor previously returned by encodeCursor
+ * @param cursor The encoded cursor
+ * @param sql The query being paged, which must match the query the cursor was issued for
+ * @param params The parameter values bound to the query, which must also match
+ * @returns The offset to resume from
+ */
+export function decodeCursor(cursor: string, sql: string, params: unknown[] = []): number {
+  let state: CursorState;
+  try {
+    state = JSON.parse(Buffer.from(cursor, 'base64url').toString('utf8'));
+  } catch {
+    throw new Error('Invalid cursor');
+  }
+
+  if (typeof state?.o !== 'number' || !Number.isInteger(state.o) || state.o < 0) {
+    throw new Error('Invalid cursor');
+  }
+
+  if (state.q !== fingerprintQuery(sql, params)) {
+    throw new Error('Cursor does not belong to this query. Re-run the original SQL and params with the cursor, or omit the cursor to start over.');
+  }
+
+  return state.o;
+}
+
+/**
+ * Wraps a single SELECT or WITH query so DuckDB only produces the requested
+ * page of rows. One extra row is requested to tell whether more rows follow.
+ * @param sql The query to page
+ * @param limit Maximum number of rows in the page
+ * @param offset Number of rows to skip
+ * @returns The paged SQL, or undefined if the query cannot be wrapped
+ *   (multiple statements, EXPLAIN, DESCRIBE and so on)
+ */
+export function buildPagedSql(sql: string, limit: number, offset: number): string | undefined {
+  const statements = splitSqlStatements(sql);
+  if (statements.length !== 1) {
+    return undefined;
+  }
+
+  const [type] = classifySqlStatements(statements[0]);
+  if (type !== 'SELECT' && type !== 'WITH') {
+    return undefined;
+  }
+
+  return `SELECT * FROM (${statements[0]}) AS tailpipe_page LIMIT ${limit + 1} OFFSET ${offset}`;
+}
+
+/**
+ * Builds a page from rows fetched with buildPagedSql (at most limit + 1 rows)
+ * or, for queries that could not be wrapped, from the full result set.
+ * @param rows The fetched rows
+ * @param sql The query being paged
+ * @param limit Maximum number of rows in the page
+ * @param offset Offset of the first row in the page
+ * @param fullResult Whether rows is the full result set rather than a page fetched with buildPagedSql
+ * @param params The parameter values bound to the query
+ */
+export function buildPage<T>(rows: T[], sql: string, limit: number, offset: number, fullResult: boolean, params: unknown[] = []): Page<T> {
+  const start = fullResult ? offset : 0;
+  const pageRows = rows.slice(start, start + limit);
+  const truncated = rows.length > start + limit;
+
+  return {
+    rows: pageRows,
+    row_count: pageRows.length,
+    truncated,
+    ...(truncated && { next_cursor: encodeCursor(sql, offset + limit, params) })
+  };
+}
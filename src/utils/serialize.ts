@@ -0,0 +1,165 @@
+import type { QueryColumn } from "../services/database.js";
+import { listElementType, mapEntryTypes, structFields } from "./columnTypes.js";
+import { quoteIdentifier } from "./sql.js";
+
+// Types the DuckDB Node bindings cannot return without losing information:
+// DECIMAL arrives as a double, HUGEINT/UHUGEINT are cast alongside it so all
+// wide numbers are consistently strings, timestamps arrive as JS Dates with
+// millisecond precision, and MAP arrives as its text form.
+const LOSSY_NUMERIC_TYPE = /^(DECIMAL|NUMERIC|HUGEINT|UHUGEINT|INT128|UINT128)\b/i;
+const TIMESTAMP_TYPE = /^TIMESTAMP$/i;
+const TIMESTAMPTZ_TYPE = /^(TIMESTAMPTZ|TIMESTAMP WITH TIME ZONE)$/i;
+
+// ISO-8601 in UTC with microseconds, the precision DuckDB stores timestamps at
+const TIMESTAMP_FORMAT = "'%Y-%m-%dT%H:%M:%S.%fZ'";
+
+function quoteString(value: string): string {
+  return `'${value.replace(/'/g, "''")}'`;
+}
+
+/**
+ * Builds an expression converting a value so the DuckDB Node bindings return
+ * it without loss, descending into STRUCT, LIST and MAP types
+ * @param expr The SQL expression for the value
+ * @param type The value's DuckDB type
+ * @param depth How many lambdas deep the expression is, to name their parameters
+ * @returns The converted expression, or undefined if the value needs no converting
+ */
+function losslessExpression(expr: string, type: string, depth: number): string | undefined {
+  const trimmed = type.trim();
+
+  const element = listElementType(trimmed);
+  if (element) {
+    const item = `tailpipe_item${depth}`;
+    const converted = losslessExpression(item, element, depth + 1);
+    return converted && `list_transform(${expr}, lambda ${item}: ${converted})`;
+  }
+
+  // Maps become lists of { key, value } entries
+  const map = mapEntryTypes(trimmed);
+  if (map) {
+    const entry = `tailpipe_entry${depth}`;
+    const keyExpr = `struct_extract(${entry}, 'key')`;
+    const valueExpr = `struct_extract(${entry}, 'value')`;
+    const key = losslessExpression(keyExpr, map.key, depth + 1);
+    const value = losslessExpression(valueExpr, map.value, depth + 1);
+    return key || value
+      ? `list_transform(map_entries(${expr}), lambda ${entry}: struct_pack(key := ${key ?? keyExpr}, value := ${value ?? valueExpr}))`
+      : `map_entries(${expr})`;
+  }
+
+  const fields = structFields(trimmed);
+  if (fields) {
+    const values = fields.map(field => {
+      const fieldExpr = `struct_extract(${expr}, ${quoteString(field.name)})`;
+      return { name: field.name, expr: fieldExpr, converted: losslessExpression(fieldExpr, field.type, depth) };
+    });
+    if (values.every(value => value.converted === undefined)) {
+      return undefined;
+    }
+    const packed = values.map(value => `${quoteIdentifier(value.name)} := ${value.converted ?? value.expr}`).join(', ');
+    return `CASE WHEN ${expr} IS NULL THEN NULL ELSE struct_pack(${packed}) END`;
+  }
+
+  if (LOSSY_NUMERIC_TYPE.test(trimmed)) {
+    return `CAST(${expr} AS VARCHAR)`;
+  }
+  if (TIMESTAMP_TYPE.test(trimmed)) {
+    return `strftime(${expr}, ${TIMESTAMP_FORMAT})`;
+  }
+  if (TIMESTAMPTZ_TYPE.test(trimmed)) {
+    return `strftime(timezone('UTC', ${expr}), ${TIMESTAMP_FORMAT})`;
+  }
+  return undefined;
+}
+
+/**
+ * Wraps a query so values the DuckDB Node bindings would return lossily are
+ * converted in SQL first, including values nested in STRUCT, LIST and MAP
+ * columns: DECIMAL and HUGEINT values become strings, timestamps become
+ * ISO-8601 strings in UTC with microseconds, and MAP values become lists of
+ * { key, value } entries.
+ * @param sql A query that can be used as a subquery
+ * @param columns The result columns of the query
+ * @returns The wrapped SQL, or undefined if no column needs converting
+ */
+export function buildLosslessSql(sql: string, columns: QueryColumn[]): string | undefined {
+  const replacements = columns.flatMap(column => {
+    const name = quoteIdentifier(column.name);
+    const converted = losslessExpression(name, column.type, 0);
+    return converted ? [`${converted} AS ${name}`] : [];
+  });
+
+  if (replacements.length === 0) {
+    return undefined;
+  }
+
+  return `SELECT * REPLACE (${replacements.join(', ')}) FROM (${sql}) AS tailpipe_values`;
+}
+
+/**
+ * Converts a value returned by DuckDB into a JSON-safe value without losing
+ * information:
+ * - BIGINTs become numbers when they are within the safe integer range,
+ *   otherwise strings
+ * - non-finite numbers become the strings "NaN", "Infinity" and "-Infinity"
+ * - DATE values become YYYY-MM-DD and timestamps ISO-8601 strings in UTC (Z)
+ * - BLOBs become base64 strings
+ * - LIST and STRUCT values are converted recursively
+ * @param value The value to convert
+ * @param type The DuckDB type of the value, when known
+ * @returns The JSON-safe value
+ */
+export function serializeValue(value: unknown, type?: string): unknown {
+  if (value === null || value === undefined) {
+    return null;
+  }
+
+  if (typeof value === 'bigint') {
+    if (value <= Number.MAX_SAFE_INTEGER && value >= Number.MIN_SAFE_INTEGER) {
+      return Number(value);
+    }
+    return value.toString();
+  }
+
+  if (typeof value === 'number') {
+    return Number.isFinite(value) ? value : String(value);
+  }
+
+  if (value instanceof Date) {
+    if (Number.isNaN(value.getTime())) {
+      return null;
+    }
+    const iso = value.toISOString();
+    return type?.toUpperCase() === 'DATE' ? iso.slice(0, 10) : iso;
+  }
+
+  if (value instanceof Uint8Array) {
+    return Buffer.from(value.buffer, value.byteOffset, value.byteLength).toString('base64');
+  }
+
+  if (Array.isArray(value)) {
+    return value.map(item => serializeValue(item));
+  }
+
+  if (typeof value === 'object') {
+    return Object.fromEntries(
+      Object.entries(value).map(([key, item]) => [key, serializeValue(item)])
+    );
+  }
+
+  return value;
+}
+
+/**
+ * Applies serializeValue to every column of a row
+ * @param row The row returned by DuckDB
+ * @param columns The result columns, used to look up each value's type
+ * @returns The JSON-safe row
+ */
+export function serializeRow(row: Record<string, unknown>, columns: QueryColumn[] = []): Record<string, unknown> {
+  const types = new Map(columns.map(column => [column.name, column.type]));
+  return Object.fromEntries(
+    Object.entries(row).map(([key, value]) => [key, serializeValue(value, types.get(key))])
+  );
+}
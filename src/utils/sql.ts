@@ -0,0 +1,393 @@
+import nodeSqlParser from "node-sql-parser";
+import { isNode, isSelect } from "./sqlAst.js";
+
+const { Parser } = nodeSqlParser as typeof import("node-sql-parser");
+
+// Shared parser instance. DuckDB has no dedicated dialect in node-sql-parser,
+// PostgreSQL is the closest match for the SQL Tailpipe generates.
+export const sqlParser = new Parser();
+export const parserOptions = { database: 'Postgresql' as const };
+
+// Statement types that can be run through tailpipe_query
+const READ_ONLY_STATEMENT_TYPES = new Set(['SELECT', 'WITH', 'DESCRIBE', 'SUMMARIZE', 'EXPLAIN']);
+
+// Escape strings (E'...') and plain strings, quoted identifiers and dollar-quoted strings.
+// A $ following a name character is part of an identifier such as a$$, not a dollar quote.
+const LITERAL_PATTERN = String.raw`(?<![\w$])[Ee]'(?:[^'\\]|\\[\s\S]|'')*(?:'|$)|'(?:[^']|'')*'|"(?:[^"]|"")*"|(?<![\w$])\$(?<tag>(?:[A-Za-z_]\w*)?)\$[\s\S]*?(?:\$\k<tag>\$|$)`;
+
+/**
+ * Whether the quote at index starts a DuckDB escape string, i.e. follows a
+ * lone E as in E'It\'s'
+ */
+function isEscapeStringPrefix(sql: string, index: number): boolean {
+  return /[Ee]/.test(sql[index - 1] ?? '') && !/[\w$]/.test(sql[index - 2] ?? '');
+}
+
+/**
+ * Splits a SQL script into statements without relying on the SQL parser.
+ * Understands quoted strings and identifiers, E'...' escape strings,
+ * dollar-quoted strings and comments, so semicolons inside any of those do not end a statement.
+ * Comments are removed from the returned statements.
+ * @param sql The SQL script to split
+ * @returns The trimmed, non-empty statements in the script
+ */
+export function splitSqlStatements(sql: string): string[] {
+  const statements: string[] = [];
+  let current = '';
+  let i = 0;
+
+  while (i < sql.length) {
+    const char = sql[i];
+    const next = sql[i + 1];
+
+    // Line comment
+    if (char === '-' && next === '-') {
+      const end = sql.indexOf('\n', i);
+      i = end === -1 ? sql.length : end;
+      current += ' ';
+      continue;
+    }
+
+    // Block comment
+    if (char === '/' && next === '*') {
+      const end = sql.indexOf('*/', i + 2);
+      i = end === -1 ? sql.length : end + 2;
+      current += ' ';
+      continue;
+    }
+
+    // Quoted string or identifier, with doubled quotes as escapes. Escape
+    // strings (E'...') also take backslash escapes.
+    if (char === "'" || char === '"') {
+      const escapes = char === "'" && isEscapeStringPrefix(sql, i);
+      let j = i + 1;
+      while (j < sql.length) {
+        if (escapes && sql[j] === '\\') {
+          j += 2;
+          continue;
+        }
+        if (sql[j] === char) {
+          if (sql[j + 1] === char) {
+            j += 2;
+            continue;
+          }
+          break;
+        }
+        j++;
+      }
+      current += sql.slice(i, j + 1);
+      i = j + 1;
+      continue;
+    }
+
+    // Dollar-quoted string ($$...$$ or $tag$...$tag$), unless the $ continues an identifier
+    if (char === '$' && !/[\w$]/.test(sql[i - 1] ?? '')) {
+      const tag = sql.slice(i).match(/^\$(?:[A-Za-z_]\w*)?\$/);
+      if (tag) {
+        const end = sql.indexOf(tag[0], i + tag[0].length);
+        const stop = end === -1 ? sql.length : end + tag[0].length;
+        current += sql.slice(i, stop);
+        i = stop;
+        continue;
+      }
+    }
+
+    if (char === ';') {
+      statements.push(current);
+      current = '';
+      i++;
+      continue;
+    }
+
+    current += char;
+    i++;
+  }
+
+  statements.push(current);
+
+  return statements
+    .map(statement => statement.trim())
+    .filter(statement => statement.length > 0);
+}
+
+/**
+ * Blanks out comments, quoted strings (including E'...' escape strings),
+ * quoted identifiers and dollar-quoted strings, keeping the length of the SQL so offsets still line up.
+ * @param sql The SQL to mask
+ * @returns The masked SQL
+ */
+export function maskSqlLiterals(sql: string): string {
+  return sql.replace(
+    new RegExp(String.raw`--[^\n]*|\/\*[\s\S]*?(?:\*\/|$)|` + LITERAL_PATTERN, 'g'),
+    match => match.replace(/[^\n]/g, ' ')
+  );
+}
+
+/**
+ * Normalizes a SQL string for use as a cache key: comments are removed,
+ * whitespace outside literals is collapsed and trailing semicolons dropped.
+ * Quoted strings and identifiers are kept exactly as written.
+ * @param sql The SQL to normalize
+ * @returns The normalized SQL
+ */
+export function normalizeSql(sql: string): string {
+  return sql
+    .replace(
+      new RegExp(String.raw`(--[^\n]*|\/\*[\s\S]*?(?:\*\/|$))|(${LITERAL_PATTERN})|\s+`, 'g'),
+      (_match, _comment, literal) => literal ?? ' '
+    )
+    .replace(/[\s;]+$/, '')
+    .trim();
+}
+
+/**
+ * Quotes an identifier for DuckDB, doubling any double quotes in it
+ * @param name The identifier
+ */
+export function quoteIdentifier(name: string): string {
+  return `"${name.replace(/"/g, '""')}"`;
+}
+
+/**
+ * Builds the fully qualified name of a table, quoting each part. Including
+ * the catalog keeps attached databases from resolving to a same-named table
+ * in the default database.
+ * @param table The table's catalog, schema and name
+ */
+export function qualifiedTableName(table: { catalog: string; schema: string; name: string }): string {
+  return [table.catalog, table.schema, table.name].map(quoteIdentifier).join('.');
+}
+
+/**
+ * Counts the parameter placeholders in a SQL string. DuckDB supports
+ * positional (?), numbered ($1) and named ($name) placeholders; repeated
+ * numbered or named placeholders refer to the same value.
+ * @param sql The SQL to inspect
+ * @returns The number of parameter values the SQL expects
+ */
+export function countSqlPlaceholders(sql: string): number {
+  const masked = maskSqlLiterals(sql);
+  const positional = masked.match(/\?/g)?.length ?? 0;
+  const numbered = [...masked.matchAll(/\$(\d+)/g)].map(match => parseInt(match[1], 10));
+  const named = new Set([...masked.matchAll(/\$([A-Za-z_]\w*)/g)].map(match => match[1]));
+
+  return positional + (numbered.length > 0 ? Math.max(...numbered) : 0) + named.size;
+}
+
+/**
+ * Ensures a statement uses a single placeholder style, since values are bound
+ * from one positional array and DuckDB cannot bind a mix of positional (?),
+ * numbered ($1) and named ($name) placeholders
+ * @param sql The SQL to check
+ * @throws Error naming the styles that were mixed
+ */
+export function assertPlaceholderStyle(sql: string): void {
+  const masked = maskSqlLiterals(sql);
+  const styles = [
+    /\?/.test(masked) && '?',
+    /\$\d/.test(masked) && '$1',
+    /\$[A-Za-z_]/.test(masked) && '$name'
+  ].filter(style => style !== false);
+
+  if (styles.length > 1) {
+    throw new Error(`Query mixes ${styles.join(' and ')} placeholders. Use one placeholder style per statement.`);
+  }
+}
+
+/**
+ * Ensures the number of parameter values matches the placeholders in a query
+ * and that the placeholders can be bound from them
+ * @param sql The SQL to check
+ * @param params The parameter values to bind
+ * @throws Error describing the mismatch
+ */
+export function assertParamCount(sql: string, params: unknown[]): void {
+  assertPlaceholderStyle(sql);
+  const expected = countSqlPlaceholders(sql);
+  if (expected !== params.length) {
+    throw new Error(
+      `Query has ${expected} parameter placeholder${expected === 1 ? '' : 's'} but ${params.length} value${params.length === 1 ? ' was' : 's were'} provided in params`
+    );
+  }
+}
+
+/**
+ * Rewrites named placeholders ($name) as numbered placeholders ($1, $2, ...)
+ * so they can be bound positionally. Names are numbered in the order they
+ * first appear; placeholders inside strings, identifiers and comments are
+ * left alone.
+ * @param sql The SQL to rewrite
+ * @returns The rewritten SQL and the parameter names in binding order
+ */
+export function bindNamedPlaceholders(sql: string): { sql: string; names: string[] } {
+  const masked = maskSqlLiterals(sql);
+  const names: string[] = [];
+  let result = '';
+  let last = 0;
+
+  for (const match of masked.matchAll(/\$([A-Za-z_]\w*)/g)) {
+    if (!names.includes(match[1])) {
+      names.push(match[1]);
+    }
+    result += `${sql.slice(last, match.index)}$${names.indexOf(match[1]) + 1}`;
+    last = match.index! + match[0].length;
+  }
+
+  return { sql: result + sql.slice(last), names };
+}
+
+/**
+ * Returns the text of the statement following the CTE definitions of a
+ * WITH statement, or undefined if it cannot be found.
+ */
+function findStatementAfterCtes(statement: string): string | undefined {
+  // Blank out quoted text so parentheses inside it are not counted
+  const masked = maskSqlLiterals(statement);
+  let depth = 0;
+
+  for (let i = 0; i < masked.length; i++) {
+    if (masked[i] === '(') {
+      depth++;
+    } else if (masked[i] === ')') {
+      depth--;
+      if (depth === 0) {
+        const rest = masked.slice(i + 1);
+        const token = rest.match(/^\s*(,|[A-Za-z_]+)/)?.[1]?.toUpperCase();
+        if (token && token !== ',' && !['AS', 'NOT', 'MATERIALIZED'].includes(token)) {
+          return statement.slice(i + 1).trim();
+        }
+      }
+    }
+  }
+
+  return undefined;
+}
+
+/**
+ * Returns the statement type of a single statement from its leading keyword,
+ * e.g. "SELECT", "COPY" or "PRAGMA". EXPLAIN is resolved to the type of the
+ * explained statement when that is not read-only, since EXPLAIN ANALYZE
+ * executes it.
+ */
+function classifyByKeyword(statement: string): string {
+  const text = statement.replace(/^[\s(]+/, '');
+  const keyword = text.match(/^[A-Za-z_]+/)?.[0]?.toUpperCase();
+
+  if (!keyword) {
+    return 'UNKNOWN';
+  }
+
+  // A WITH clause can prefix any statement, e.g. WITH ... INSERT INTO ...
+  if (keyword === 'WITH') {
+    const main = findStatementAfterCtes(text);
+    if (main) {
+      const mainType = classifyByKeyword(main);
+      return READ_ONLY_STATEMENT_TYPES.has(mainType) ? keyword : mainType;
+    }
+    return keyword;
+  }
+
+  if (keyword === 'EXPLAIN') {
+    const inner = text
+      .slice(keyword.length)
+      .replace(/^\s*\(([^)]*)\)/, '')
+      .replace(/^\s*ANALY[SZ]E\b/i, '')
+      .trim();
+    const innerType = inner ? classifyByKeyword(inner) : 'UNKNOWN';
+    return READ_ONLY_STATEMENT_TYPES.has(innerType) ? keyword : innerType;
+  }
+
+  // DESC is an alias for DESCRIBE in DuckDB
+  return keyword === 'DESC' ? 'DESCRIBE' : keyword;
+}
+
+/**
+ * Classifies each statement in a SQL string by type. The SQL parser is tried
+ * first, falling back to a DuckDB-aware keyword classification for syntax it
+ * does not understand (DESCRIBE, SUMMARIZE, COPY, PRAGMA, ATTACH and so on).
+ * @param sql The SQL to classify
+ * @returns Upper-case statement types in the order they appear
+ */
+export function classifySqlStatements(sql: string): string[] {
+  return parseStatementTypes(sql) ?? splitSqlStatements(sql).map(classifyByKeyword);
+}
+
+/**
+ * Classifies each statement with the SQL parser
+ * @returns The statement types, or undefined if the parser failed
+ */
+function parseStatementTypes(sql: string): string[] | undefined {
+  try {
+    const ast = sqlParser.astify(sql, parserOptions);
+    const astArray = Array.isArray(ast) ? ast : [ast];
+
+    return astArray.map(statementAst => {
+      const type = String(statementAst.type).toUpperCase();
+      // SELECT ... INTO creates a table
+      if (isSelect(statementAst) && isNode(statementAst.into) && statementAst.into.expr) {
+        return 'SELECT INTO';
+      }
+      return type;
+    });
+  } catch {
+    return undefined;
+  }
+}
+
+/**
+ * Ensures a SQL string only contains read-only statements
+ * (SELECT, WITH, DESCRIBE, SUMMARIZE or EXPLAIN).
+ * @param sql The SQL to check
+ * @throws Error naming the first statement type that is not allowed
+ */
+export function assertReadOnlySql(sql: string): void {
+  const types = classifySqlStatements(sql);
+
+  if (types.length === 0) {
+    throw new Error('No SQL statement provided');
+  }
+
+  const blocked = types.find(type => !READ_ONLY_STATEMENT_TYPES.has(type));
+  if (blocked) {
+    throw new Error(`Only read-only queries are allowed. ${blocked} statements are not permitted.`);
+  }
+
+  // The keyword fallback relies on splitting statements the same way DuckDB
+  // does, so don't trust it with more than one statement
+  if (!parseStatementTypes(sql) && /;/.test(maskSqlLiterals(sql).replace(/[\s;]+$/, ''))) {
+    throw new Error('Only read-only queries are allowed. Multiple statements could not be checked because the SQL parser does not understand them; run them one at a time.');
+  }
+}
+
+export interface SessionDefinition {
+  kind: 'variable' | 'macro' | 'table macro';
+  name: string;
+}
+
+/**
+ * Recognizes the session setup statements allowed ahead of queries in a
+ * multi-statement batch: SET VARIABLE and CREATE TEMP MACRO (or FUNCTION).
+ * OR REPLACE and IF NOT EXISTS are not recognized, so a batch cannot
+ * replace a macro defined by the init script.
+ * @param statement A single statement
+ * @returns What the statement defines, so it can be removed after the batch,
+ *   or undefined if it is not a session setup statement
+ */
+export function parseSessionStatement(statement: string): SessionDefinition | undefined {
+  // Quoted or bare identifier, matched against the statement itself since
+  // masking would blank out quoted names
+  const identifier = String.raw`("(?:[^"]|"")+"|[A-Za-z_]\w*)`;
+
+  const variable = statement.match(new RegExp(String.raw`^\s*SET\s+VARIABLE\s+${identifier}\s*(?:=|TO\b)`, 'i'));
+  if (variable) {
+    return { kind: 'variable', name: variable[1] };
+  }
+
+  const macro = statement.match(new RegExp(String.raw`^\s*CREATE\s+TEMP(?:ORARY)?\s+(?:MACRO|FUNCTION)\s+${identifier}\s*\(`, 'i'));
+  if (macro) {
+    const tableMacro = /\)\s*AS\s+TABLE\b/i.test(maskSqlLiterals(statement));
+    return { kind: tableMacro ? 'table macro' : 'macro', name: macro[1] };
+  }
+
+  return undefined;
+}
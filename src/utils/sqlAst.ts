@@ -0,0 +1,64 @@
+/**
+ * Loose shapes for walking node-sql-parser's AST
+ *
+ * The parser's published types don't cover every shape its PostgreSQL grammar
+ * produces, such as table functions in FROM, lambdas or DuckDB struct access,
+ * so the walkers read nodes through these shapes and narrow them with the
+ * guards below.
+ */
+
+export interface AstNode {
+  type?: unknown;
+  [key: string]: unknown;
+}
+
+export interface FromNode extends AstNode {
+  db?: string | null;
+  table?: unknown;
+  as?: unknown;
+  // Subquery or table function
+  expr?: AstNode & { ast?: unknown };
+  on?: unknown;
+}
+
+export interface SelectNode extends AstNode {
+  type: 'select';
+  with?: Array<{ name?: unknown; stmt?: AstNode & { ast?: unknown }; columns?: unknown }> | null;
+  from?: FromNode[] | null;
+  columns?: Array<{ expr?: AstNode; as?: unknown }> | null;
+  _next?: SelectNode | null;
+}
+
+export interface ColumnRefNode extends AstNode {
+  type: 'column_ref';
+  table?: unknown;
+  column?: unknown;
+  schema?: unknown;
+}
+
+export function isNode(value: unknown): value is AstNode {
+  return !!value && typeof value === 'object';
+}
+
+export function isSelect(value: unknown): value is SelectNode {
+  return isNode(value) && value.type === 'select';
+}
+
+export function isColumnRef(value: unknown): value is ColumnRefNode {
+  return isNode(value) && value.type === 'column_ref';
+}
+
+/**
+ * Gets the name of an identifier, which the parser gives either as a string
+ * or as a { value } or { expr: { value } } node
+ */
+export function identifierName(value: unknown): string | undefined {
+  if (typeof value === 'string') {
+    return value;
+  }
+  if (!isNode(value)) {
+    return undefined;
+  }
+  const name = value.value ?? (isNode(value.expr) ? value.expr.value : undefined);
+  return typeof name === 'string' ? name : undefined;
+}
@@ -0,0 +1,46 @@
+/**
+ * Edit distance between two strings (insertions, deletions and substitutions)
+ */
+function levenshtein(a: string, b: string): number {
+  let previous = Array.from({ length: b.length + 1 }, (_, i) => i);
+
+  for (let i = 1; i <= a.length; i++) {
+    const current = [i];
+    for (let j = 1; j <= b.length; j++) {
+      current[j] = Math.min(
+        previous[j] + 1,
+        current[j - 1] + 1,
+        previous[j - 1] + (a[i - 1] === b[j - 1] ? 0 : 1)
+      );
+    }
+    previous = current;
+  }
+
+  return previous[b.length];
+}
+
+/**
+ * Finds the candidates closest to a misspelled name, for "did you mean"
+ * suggestions. Matching is case-insensitive; candidates containing the name
+ * (or contained in it) are also suggested when both are at least three
+ * characters long.
+ * @param name The unknown name
+ * @param candidates The known names
+ * @param limit Maximum number of suggestions
+ * @returns The closest candidates, best first
+ */
+export function suggestNames(name: string, candidates: Iterable<string>, limit: number = 3): string[] {
+  const target = name.toLowerCase();
+  const maxDistance = Math.max(2, Math.floor(target.length / 3));
+
+  return [...new Set(candidates)]
+    .map(candidate => {
+      const lower = candidate.toLowerCase();
+      const contains = Math.min(lower.length, target.length) >= 3 && (lower.includes(target) || target.includes(lower));
+      return { candidate, distance: levenshtein(target, lower), contains };
+    })
+    .filter(({ distance, contains }) => distance <= maxDistance || contains)
+    .sort((a, b) => a.distance - b.distance || a.candidate.localeCompare(b.candidate))
+    .slice(0, limit)
+    .map(({ candidate }) => candidate);
+}
@@ -0,0 +1,177 @@
+import type { AST } from "node-sql-parser";
+import { classifySqlStatements, maskSqlLiterals, parserOptions, splitSqlStatements, sqlParser } from "./sql.js";
+import { identifierName, isColumnRef, isNode, isSelect, type SelectNode } from "./sqlAst.js";
+
+// Tailpipe partitions log files by these columns
+const TIME_COLUMNS = new Set(['tp_date', 'tp_timestamp']);
+
+export type TimeRangeGuardrail = 'off' | 'warn' | 'block';
+
+const TIME_RANGE_GUARDRAILS: TimeRangeGuardrail[] = ['off', 'warn', 'block'];
+
+// What tailpipe_query does with queries that scan a table without a time filter
+export const TIME_RANGE_GUARDRAIL: TimeRangeGuardrail =
+  TIME_RANGE_GUARDRAILS.find(mode => mode === process.env.TAILPIPE_MCP_TIME_RANGE_GUARDRAIL?.toLowerCase()) ?? 'off';
+
+/**
+ * DESCRIBE and EXPLAIN only plan or describe a query without reading any
+ * files, unless it is EXPLAIN ANALYZE
+ */
+function readsFiles(statement: string): boolean {
+  const [type] = classifySqlStatements(statement);
+  if (type === 'DESCRIBE') {
+    return false;
+  }
+  if (type === 'EXPLAIN') {
+    return /^\s*EXPLAIN\s*(\([^)]*\bANALY[SZ]E\b|ANALY[SZ]E\b)/i.test(statement);
+  }
+  return true;
+}
+
+/**
+ * Collects the qualifiers ('' when unqualified) of tp_date/tp_timestamp
+ * column references in an expression, without descending into subqueries
+ */
+function timeColumnQualifiers(node: unknown, qualifiers: Set<string> = new Set()): Set<string> {
+  if (!isNode(node) || node.ast || isSelect(node)) {
+    return qualifiers;
+  }
+  if (isColumnRef(node)) {
+    const name = identifierName(node.column);
+    if (name && TIME_COLUMNS.has(name.toLowerCase())) {
+      qualifiers.add((identifierName(node.table) ?? '').toLowerCase());
+    }
+    return qualifiers;
+  }
+  Object.values(node).forEach(child => timeColumnQualifiers(child, qualifiers));
+  return qualifiers;
+}
+
+/**
+ * Calls fn for every subquery nested in an expression
+ */
+function forEachSubquery(node: unknown, fn: (select: SelectNode) => void): void {
+  if (!isNode(node)) {
+    return;
+  }
+  if (isSelect(node.ast)) {
+    fn(node.ast);
+    return;
+  }
+  if (isSelect(node)) {
+    fn(node);
+    return;
+  }
+  Object.values(node).forEach(child => forEachSubquery(child, fn));
+}
+
+function visitSelect(select: SelectNode, tables: Set<string>, outerCtes: Set<string>, unbounded: string[]): void {
+  const ctes = new Set(outerCtes);
+  for (const cte of select.with ?? []) {
+    ctes.add((identifierName(cte.name) ?? '').toLowerCase());
+    const stmt = cte.stmt?.ast ?? cte.stmt;
+    if (isSelect(stmt)) {
+      visitSelect(stmt, tables, ctes, unbounded);
+    }
+  }
+
+  const from = select.from ?? [];
+
+  // A time predicate counts when it is in the WHERE clause or a join condition
+  const qualifiers = new Set<string>();
+  timeColumnQualifiers(select.where, qualifiers);
+  from.forEach(item => timeColumnQualifiers(item.on, qualifiers));
+
+  const partitioned: Array<{ table: string; alias: string }> = [];
+  for (const item of from) {
+    if (item.expr) {
+      forEachSubquery(item.expr, subquery => visitSelect(subquery, tables, ctes, unbounded));
+      continue;
+    }
+
+    const table = identifierName(item.table);
+    if (!table || (!item.db && ctes.has(table.toLowerCase())) || !tables.has(table.toLowerCase())) {
+      continue;
+    }
+    partitioned.push({ table, alias: (identifierName(item.as) ?? table).toLowerCase() });
+  }
+
+  // An unqualified predicate can only be attributed to the table when no
+  // other partitioned table is read alongside it
+  const unqualifiedBounds = qualifiers.has('') && partitioned.length === 1;
+  for (const { table, alias } of partitioned) {
+    const bounded = unqualifiedBounds || qualifiers.has(alias) || qualifiers.has(table.toLowerCase());
+    if (!bounded) {
+      unbounded.push(table);
+    }
+  }
+
+  for (const clause of ['columns', 'where', 'having', 'orderby', 'groupby']) {
+    forEachSubquery(select[clause], subquery => visitSelect(subquery, tables, ctes, unbounded));
+  }
+
+  if (select._next) {
+    visitSelect(select._next, tables, ctes, unbounded);
+  }
+}
+
+/**
+ * Falls back to a textual check when the SQL parser does not understand a
+ * statement: any Tailpipe table named in a statement that never mentions
+ * tp_date or tp_timestamp is reported.
+ */
+function findUnboundedByName(statement: string, tables: Set<string>): string[] {
+  const masked = maskSqlLiterals(statement).toLowerCase();
+  if (/\btp_(date|timestamp)\b/.test(masked)) {
+    return [];
+  }
+
+  const words = new Set(masked.match(/[a-z_][\w$]*/g) ?? []);
+  return [...tables].filter(table => words.has(table));
+}
+
+/**
+ * Finds the Tailpipe tables a query reads without a predicate on tp_date or
+ * tp_timestamp, which makes DuckDB read every collected file for the table.
+ * A predicate must be in the WHERE clause or a join condition of the SELECT
+ * that reads the table, and be qualified with the table or its alias when
+ * that SELECT reads more than one partitioned table.
+ * @param sql The SQL to inspect
+ * @param tables Lower-case names of the tables that are partitioned by time
+ * @returns The names of the tables read without a time predicate
+ */
+export function findUnboundedScans(sql: string, tables: Set<string>): string[] {
+  const unbounded: string[] = [];
+
+  for (const statement of splitSqlStatements(sql)) {
+    if (!readsFiles(statement)) {
+      continue;
+    }
+
+    let ast: AST | AST[];
+    try {
+      ast = sqlParser.astify(statement, parserOptions);
+    } catch {
+      unbounded.push(...findUnboundedByName(statement, tables));
+      continue;
+    }
+
+    for (const node of Array.isArray(ast) ? ast : [ast]) {
+      if (isSelect(node)) {
+        visitSelect(node, tables, new Set(), unbounded);
+      }
+    }
+  }
+
+  return [...new Set(unbounded)];
+}
+
+/**
+ * Explains which tables a query scans without a time filter and how to fix it
+ * @param tables The tables read without a time predicate
+ * @returns The message for a guardrail warning or error
+ */
+export function unboundedScanMessage(tables: string[]): string {
+  return `No tp_date or tp_timestamp filter on ${tables.join(', ')}, so the query reads every file ever collected for ${tables.length === 1 ? 'it' : 'them'}. `
+    + `Add a time filter such as WHERE tp_date >= current_date - INTERVAL 7 DAY, or pass acknowledge_full_scan: true if a full scan is intended.`;
+}
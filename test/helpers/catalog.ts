@@ -0,0 +1,52 @@
+import { jest } from "@jest/globals";
+
+// A row of information_schema.columns joined with duckdb_views(), as the catalog queries them
+export interface CatalogRow {
+  table_catalog: string;
+  table_schema: string;
+  table_name: string;
+  column_name: string;
+  data_type: string;
+  is_nullable: "YES" | "NO";
+  is_view: boolean;
+  comment: string | null;
+}
+
+export function catalogRow(
+  table: string,
+  column: string,
+  dataType: string,
+  options: { nullable?: boolean; view?: boolean; comment?: string } = {}
+): CatalogRow {
+  return {
+    table_catalog: "memory",
+    table_schema: "main",
+    table_name: table,
+    column_name: column,
+    data_type: dataType,
+    is_nullable: (options.nullable ?? true) ? "YES" : "NO",
+    is_view: options.view ?? true,
+    comment: options.comment ?? null
+  };
+}
+
+/**
+ * Creates a database whose executeQuery answers the catalog's queries from the
+ * given rows, filtered by table name when the query binds one, and passes any
+ * other query to onQuery
+ */
+export function mockCatalogDb(
+  rows: CatalogRow[],
+  onQuery: (sql: string, params: unknown[]) => any[] | Promise<any[]> = () => []
+) {
+  const executeQuery = jest.fn<(sql: string, params?: unknown[], options?: unknown) => Promise<any[]>>();
+  executeQuery.mockImplementation(async (sql, params = []) => {
+    if (!sql.includes("information_schema.columns")) {
+      return onQuery(sql, params);
+    }
+    return params.length > 0
+      ? rows.filter(row => row.table_name.toLowerCase() === String(params[0]).toLowerCase())
+      : rows;
+  });
+  return { executeQuery };
+}
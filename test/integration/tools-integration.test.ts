@@ -30,7 +30,7 @@ describe("Tool integration with DatabaseService", () => {
       content: [
         {
           type: "text",
-          text: '[{"id":1,"name":"alpha"}]'
+          text: '{"columns":[{"name":"id","type":"INTEGER"},{"name":"name","type":"VARCHAR"}],"rows":[{"id":1,"name":"alpha"}],"row_count":1,"truncated":false,"cached":false}'
         }
       ],
       isError: false
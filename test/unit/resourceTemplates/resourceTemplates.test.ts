@@ -0,0 +1,81 @@
+import { jest } from "@jest/globals";
+import { catalogRow, mockCatalogDb } from "../../helpers/catalog.js";
+
+const executeCommandMock = jest.fn<(cmd: string, options?: unknown) => string>();
+
+jest.unstable_mockModule("../../../src/utils/command.js", () => ({
+  executeCommand: executeCommandMock,
+  MAX_BUFFER_SIZE: 0
+}));
+
+jest.unstable_mockModule("../../../src/services/logger.js", () => ({
+  logger: { debug: jest.fn(), info: jest.fn(), warn: jest.fn(), error: jest.fn() }
+}));
+
+const { readTemplatedResource, resourceTemplateCapabilities } = await import("../../../src/resourceTemplates/index.js");
+
+const db = mockCatalogDb([catalogRow("aws_cloudtrail_log", "event_name", "VARCHAR")]) as any;
+
+describe("resource templates", () => {
+  beforeEach(() => {
+    executeCommandMock.mockReset();
+  });
+
+  it("advertises URI templates for tables, partitions, plugins and sources", () => {
+    expect(Object.values(resourceTemplateCapabilities.resourceTemplates).map(t => t.uriTemplate)).toEqual([
+      "tailpipe://tables/{name}",
+      "tailpipe://partitions/{name}",
+      "tailpipe://plugins/{name}",
+      "tailpipe://sources/{name}"
+    ]);
+  });
+
+  it("reads partitions, plugins and sources through the CLI", async () => {
+    executeCommandMock.mockReturnValue(JSON.stringify({ name: "aws_cloudtrail_log.prod" }));
+
+    const result = await readTemplatedResource(db, "tailpipe://partitions/aws_cloudtrail_log.prod");
+
+    expect(executeCommandMock).toHaveBeenCalledWith('tailpipe partition show "aws_cloudtrail_log.prod" --output json', { env: expect.any(Object) });
+    expect(result).toEqual({
+      contents: [{
+        uri: "tailpipe://partitions/aws_cloudtrail_log.prod",
+        mimeType: "application/json",
+        text: '{"partition":{"name":"aws_cloudtrail_log.prod"}}'
+      }]
+    });
+  });
+
+  it("decodes names and rejects ones that are not resource names", async () => {
+    executeCommandMock.mockReturnValue("{}");
+
+    await readTemplatedResource(db, "tailpipe://plugins/hub.tailpipe.io%2Fplugins%2Fturbot%2Faws%40latest");
+    expect(executeCommandMock).toHaveBeenCalledWith('tailpipe plugin show "hub.tailpipe.io/plugins/turbot/aws@latest" --output json', expect.anything());
+
+    await expect(readTemplatedResource(db, "tailpipe://sources/x%22%3Brm%20-rf")).rejects.toThrow('Invalid source name: x";rm -rf');
+  });
+
+  it("falls back to the DuckDB catalog for tables when the CLI fails", async () => {
+    executeCommandMock.mockImplementation(() => {
+      throw new Error("tailpipe: command not found");
+    });
+
+    const result = await readTemplatedResource(db, "tailpipe://tables/aws_cloudtrail_log");
+
+    expect(JSON.parse(result!.contents[0].text)).toEqual({
+      table: {
+        name: "aws_cloudtrail_log",
+        catalog: "memory",
+        schema: "main",
+        type: "view",
+        columns: [{ name: "event_name", type: "VARCHAR", nullable: true }]
+      },
+      source: "duckdb",
+      fallback_reason: "tailpipe: command not found"
+    });
+  });
+
+  it("returns undefined for URIs that match no template", async () => {
+    expect(await readTemplatedResource(db, "tailpipe://tables")).toBeUndefined();
+    expect(await readTemplatedResource(db, "tailpipe://queries/x")).toBeUndefined();
+  });
+});
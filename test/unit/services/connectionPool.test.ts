@@ -0,0 +1,116 @@
+import { jest } from "@jest/globals";
+import { ConnectionPool, PoolClosedError } from "../../../src/services/connectionPool.js";
+
+function createPool(size: number) {
+  let next = 1;
+  const destroy = jest.fn<(connection: number) => void>();
+  const create = jest.fn(async () => next++);
+  return { pool: new ConnectionPool<number>({ size, create, destroy }), create, destroy };
+}
+
+describe("ConnectionPool", () => {
+  it("creates connections up to its size and reuses released ones", async () => {
+    const { pool, create } = createPool(2);
+
+    const first = await pool.acquire();
+    const second = await pool.acquire();
+    pool.release(first);
+    const third = await pool.acquire();
+
+    expect([first, second, third]).toEqual([1, 2, 1]);
+    expect(create).toHaveBeenCalledTimes(2);
+    expect(pool.stats).toEqual({ size: 2, active: 2, idle: 0, waiting: 0 });
+  });
+
+  it("hands released connections to waiting callers in the order they asked", async () => {
+    const { pool } = createPool(1);
+    const held = await pool.acquire();
+    const order: string[] = [];
+
+    const a = pool.acquire().then(connection => { order.push("a"); return connection; });
+    const b = pool.acquire().then(connection => { order.push("b"); return connection; });
+    expect(pool.stats.waiting).toBe(2);
+
+    pool.release(held);
+    pool.release(await a);
+    await b;
+
+    expect(order).toEqual(["a", "b"]);
+    expect(pool.stats).toEqual({ size: 1, active: 1, idle: 0, waiting: 0 });
+  });
+
+  it("stops waiting when the signal is aborted", async () => {
+    const { pool } = createPool(1);
+    await pool.acquire();
+    const controller = new AbortController();
+
+    const waiting = pool.acquire(controller.signal);
+    controller.abort(new Error("gave up"));
+
+    await expect(waiting).rejects.toThrow("gave up");
+    expect(pool.stats.waiting).toBe(0);
+  });
+
+  it("passes a failed slot on to the next waiting caller", async () => {
+    let fail = true;
+    const pool = new ConnectionPool<string>({
+      size: 1,
+      create: async () => {
+        if (fail) {
+          fail = false;
+          throw new Error("bootstrap failed");
+        }
+        return "conn";
+      },
+      destroy: () => undefined
+    });
+
+    const first = pool.acquire();
+    const second = pool.acquire();
+
+    await expect(first).rejects.toThrow("bootstrap failed");
+    await expect(second).resolves.toBe("conn");
+  });
+
+  it("rejects waiters on close and resolves once connections in use are released", async () => {
+    const { pool, destroy } = createPool(1);
+    const held = await pool.acquire();
+    const waiting = pool.acquire();
+
+    let closed = false;
+    const closing = pool.close().then(() => { closed = true; });
+
+    await expect(waiting).rejects.toBeInstanceOf(PoolClosedError);
+    await expect(pool.acquire()).rejects.toBeInstanceOf(PoolClosedError);
+    await Promise.resolve();
+    expect(closed).toBe(false);
+
+    pool.release(held);
+    await closing;
+    expect(destroy).toHaveBeenCalledWith(held);
+  });
+
+  it("destroys discarded connections and opens a new one for the next caller", async () => {
+    const { pool, destroy } = createPool(1);
+    const broken = await pool.acquire();
+    const waiting = pool.acquire();
+
+    pool.discard(broken);
+    // Releasing it afterwards, as callers do in a finally block, has no effect
+    pool.release(broken);
+
+    expect(destroy).toHaveBeenCalledWith(broken);
+    await expect(waiting).resolves.toBe(2);
+    expect(pool.stats).toEqual({ size: 1, active: 1, idle: 0, waiting: 0 });
+  });
+
+  it("destroys connections in use when forced to close", async () => {
+    const { pool, destroy } = createPool(2);
+    const held = await pool.acquire();
+
+    await pool.close(true);
+
+    expect(destroy).toHaveBeenCalledWith(held);
+    expect(pool.stats).toEqual({ size: 2, active: 0, idle: 0, waiting: 0 });
+  });
+});
@@ -1,4 +1,5 @@
-import { DatabaseService } from "../../../src/services/database.js";
+import { DatabaseService, QueryCancelledError } from "../../../src/services/database.js";
+import { writeFileSync } from "fs";
 import { createTempInitScript } from "../../helpers/init-script.js";
 
 describe("DatabaseService", () => {
@@ -83,5 +84,159 @@ describe("DatabaseService", () => {
     await service.close();
     script.cleanup();
   });
-});
 
+  it("describes query columns without returning rows", async () => {
+    const script = createTempInitScript(`
+      CREATE TABLE describe_test (id INTEGER, seen_at TIMESTAMP);
+    `);
+
+    const service = await DatabaseService.create(script.path);
+    const columns = await service.describeQuery("SELECT * FROM describe_test WHERE id > 100");
+
+    expect(columns).toEqual([
+      { name: "id", type: "INTEGER" },
+      { name: "seen_at", type: "TIMESTAMP" }
+    ]);
+
+    await service.close();
+    script.cleanup();
+  });
+
+  it("streams results in chunks and reports progress", async () => {
+    const script = createTempInitScript(`
+      CREATE TABLE stream_test AS SELECT range AS id FROM range(5000);
+    `);
+
+    const service = await DatabaseService.create(script.path);
+    const progress: number[] = [];
+    const rows = await service.executeQuery("SELECT id FROM stream_test WHERE id >= ?", [1000], {
+      onProgress: ({ rows }) => progress.push(rows)
+    });
+
+    expect(rows).toHaveLength(4000);
+    expect(progress).toEqual([2048, 4000]);
+
+    await service.close();
+    script.cleanup();
+  });
+
+  it("times out long-running queries without losing the session", async () => {
+    const script = createTempInitScript(`
+      CREATE TABLE timeout_test (id INTEGER);
+      INSERT INTO timeout_test VALUES (7);
+    `);
+
+    const service = await DatabaseService.create(script.path);
+
+    // Created after the init script, so it only survives if the session is kept
+    await service.executeQuery("INSERT INTO timeout_test VALUES (8)");
+    await expect(
+      service.executeQuery("SELECT count(*) FROM range(1000000000)", [], { timeoutMs: 50 })
+    ).rejects.toBeInstanceOf(QueryCancelledError);
+
+    const rows = await service.executeQuery("SELECT * FROM timeout_test ORDER BY id");
+    expect(rows).toEqual([{ id: 7 }, { id: 8 }]);
+
+    await service.close();
+    script.cleanup();
+  });
+
+  it("rejects queries whose signal is already aborted", async () => {
+    const script = createTempInitScript(`
+      CREATE TABLE cancel_test (id INTEGER);
+    `);
+
+    const service = await DatabaseService.create(script.path);
+    const controller = new AbortController();
+    controller.abort();
+
+    await expect(
+      service.executeQuery("SELECT * FROM cancel_test", [], { signal: controller.signal })
+    ).rejects.toMatchObject({ reason: "cancelled" });
+
+    await service.close();
+    script.cleanup();
+  });
+
+  it("runs concurrent queries on pooled connections that share the init script's views and settings", async () => {
+    const script = createTempInitScript(`
+      SET TimeZone = 'America/New_York';
+      CREATE VIEW pool_view AS SELECT range AS id FROM range(3);
+    `);
+
+    const service = await DatabaseService.create(script.path);
+    const results = await Promise.all(Array.from({ length: 6 }, () =>
+      service.executeQuery("SELECT count(*)::INTEGER AS n, current_setting('TimeZone') AS tz FROM pool_view")
+    ));
+
+    expect(results).toEqual(Array.from({ length: 6 }, () => [{ n: 3, tz: "America/New_York" }]));
+    expect(service.poolStats).toMatchObject({ active: 0, waiting: 0 });
+
+    await service.close();
+    script.cleanup();
+  });
+
+  it("keeps session state within a session", async () => {
+    const script = createTempInitScript(`
+      CREATE TABLE session_test (id INTEGER);
+    `);
+
+    const service = await DatabaseService.create(script.path);
+    const rows = await service.withSession(async session => {
+      await session.executeQuery("CREATE TEMP MACRO double_it(x) AS x * 2");
+      return session.executeQuery("SELECT double_it(21) AS answer");
+    });
+
+    expect(rows).toEqual([{ answer: 42 }]);
+
+    await service.close();
+    script.cleanup();
+  });
+
+  it("swaps in a reloaded session and keeps the old one when the script fails", async () => {
+    const script = createTempInitScript(`
+      CREATE VIEW reload_view AS SELECT 1 AS version;
+    `);
+
+    const service = await DatabaseService.create(script.path);
+
+    writeFileSync(script.path, "CREATE VIEW reload_view AS SELECT 2 AS version;", "utf8");
+    await expect(service.reload()).resolves.toBe(true);
+    expect(await service.executeQuery("SELECT version FROM reload_view")).toEqual([{ version: 2 }]);
+    expect(service.reloadStatus).toMatchObject({ status: "reloaded", init_script_path: script.path });
+
+    writeFileSync(script.path, "INVALID STATEMENT;", "utf8");
+    await expect(service.reload()).resolves.toBe(false);
+    expect(await service.executeQuery("SELECT version FROM reload_view")).toEqual([{ version: 2 }]);
+    expect(service.reloadStatus).toMatchObject({ status: "failed", error: expect.any(String) });
+
+    await service.close();
+    script.cleanup();
+  });
+
+  it("finishes a reload in progress before switching to another init script", async () => {
+    const script = createTempInitScript(`
+      CREATE VIEW reload_view AS SELECT 1 AS version;
+    `);
+    const otherScript = createTempInitScript(`
+      CREATE VIEW reload_view AS SELECT 3 AS version;
+    `);
+
+    const service = await DatabaseService.create(script.path);
+
+    writeFileSync(script.path, "CREATE VIEW reload_view AS SELECT 2 AS version;", "utf8");
+    const reloading = service.reload();
+    // Let the reload start building its session
+    await new Promise(resolve => setImmediate(resolve));
+    const switching = service.setDatabaseConfig({ initScriptPath: otherScript.path });
+
+    await expect(reloading).resolves.toBe(true);
+    expect(service.reloadStatus).toMatchObject({ status: "reloaded", init_script_path: script.path });
+    await switching;
+    expect(await service.executeQuery("SELECT version FROM reload_view")).toEqual([{ version: 3 }]);
+
+    await service.close();
+    script.cleanup();
+    otherScript.cleanup();
+  });
+});
@@ -0,0 +1,75 @@
+import { jest } from "@jest/globals";
+import { renameSync, writeFileSync } from "fs";
+import { join, dirname } from "path";
+import { watchFile } from "../../../src/services/fileWatcher.js";
+import { createTempInitScript } from "../../helpers/init-script.js";
+
+// Resolves once fn has been called, or after timeoutMs
+function called(fn: jest.Mock, timeoutMs = 2000): Promise<void> {
+  return new Promise(resolve => {
+    const started = Date.now();
+    const poll = setInterval(() => {
+      if (fn.mock.calls.length > 0 || Date.now() - started > timeoutMs) {
+        clearInterval(poll);
+        resolve();
+      }
+    }, 10);
+  });
+}
+
+describe("watchFile", () => {
+  it("calls onChange once after a burst of writes", async () => {
+    const script = createTempInitScript("SELECT 1;");
+    const onChange = jest.fn();
+    const stop = watchFile(script.path, 100, onChange);
+
+    try {
+      writeFileSync(script.path, "SELECT 2;");
+      writeFileSync(script.path, "SELECT 3;");
+      await called(onChange);
+      await new Promise(resolve => setTimeout(resolve, 200));
+
+      expect(onChange).toHaveBeenCalledTimes(1);
+    } finally {
+      stop();
+      script.cleanup();
+    }
+  });
+
+  it("sees the file being replaced through a rename", async () => {
+    const script = createTempInitScript("SELECT 1;");
+    const onChange = jest.fn();
+    const stop = watchFile(script.path, 20, onChange);
+
+    try {
+      const next = join(dirname(script.path), "init.sql.tmp");
+      writeFileSync(next, "SELECT 2;");
+      renameSync(next, script.path);
+      await called(onChange);
+
+      expect(onChange).toHaveBeenCalled();
+    } finally {
+      stop();
+      script.cleanup();
+    }
+  });
+
+  it("ignores other files in the directory and stops when asked", async () => {
+    const script = createTempInitScript("SELECT 1;");
+    const onChange = jest.fn();
+    const stop = watchFile(script.path, 20, onChange);
+
+    try {
+      writeFileSync(join(dirname(script.path), "other.sql"), "SELECT 2;");
+      await new Promise(resolve => setTimeout(resolve, 200));
+      expect(onChange).not.toHaveBeenCalled();
+
+      stop();
+      writeFileSync(script.path, "SELECT 3;");
+      await new Promise(resolve => setTimeout(resolve, 200));
+      expect(onChange).not.toHaveBeenCalled();
+    } finally {
+      script.cleanup();
+    }
+  });
+});
@@ -0,0 +1,52 @@
+import { QueryCache } from "../../../src/services/queryCache.js";
+
+describe("QueryCache", () => {
+  const result = (id: number) => ({ columns: [{ name: "id", type: "INTEGER" }], rows: [{ id }] });
+
+  it("keys results by normalized SQL and params", () => {
+    const cache = new QueryCache({ maxEntries: 10, maxBytes: 1024 * 1024 });
+    cache.set("SELECT id FROM t WHERE a = ?;", ["x"], "init@1", result(1));
+
+    expect(cache.get("select id  FROM t WHERE a = ? -- comment", ["x"], "init@1")).toBeUndefined();
+    expect(cache.get("SELECT id\n  FROM t WHERE a = ? -- comment", ["x"], "init@1")).toEqual(result(1));
+    expect(cache.get("SELECT id FROM t WHERE a = ?", ["y"], "init@1")).toBeUndefined();
+  });
+
+  it("keeps whitespace inside string literals significant", () => {
+    const cache = new QueryCache({ maxEntries: 10, maxBytes: 1024 * 1024 });
+    cache.set("SELECT 'a  b'", [], "init@1", result(1));
+
+    expect(cache.get("SELECT 'a b'", [], "init@1")).toBeUndefined();
+  });
+
+  it("evicts the least recently used entry", () => {
+    const cache = new QueryCache({ maxEntries: 2, maxBytes: 1024 * 1024 });
+    cache.set("SELECT 1", [], "init@1", result(1));
+    cache.set("SELECT 2", [], "init@1", result(2));
+    cache.get("SELECT 1", [], "init@1");
+    cache.set("SELECT 3", [], "init@1", result(3));
+
+    expect(cache.get("SELECT 1", [], "init@1")).toEqual(result(1));
+    expect(cache.get("SELECT 2", [], "init@1")).toBeUndefined();
+    expect(cache.size).toBe(2);
+  });
+
+  it("evicts entries to stay within the byte limit", () => {
+    const bytes = Buffer.byteLength(JSON.stringify(result(1)));
+    const cache = new QueryCache({ maxEntries: 10, maxBytes: bytes * 2 });
+    cache.set("SELECT 1", [], "init@1", result(1));
+    cache.set("SELECT 2", [], "init@1", result(2));
+    cache.set("SELECT 3", [], "init@1", result(3));
+
+    expect(cache.size).toBe(2);
+    expect(cache.get("SELECT 1", [], "init@1")).toBeUndefined();
+  });
+
+  it("clears all entries when the init script fingerprint changes", () => {
+    const cache = new QueryCache({ maxEntries: 10, maxBytes: 1024 * 1024 });
+    cache.set("SELECT 1", [], "init@1", result(1));
+
+    expect(cache.get("SELECT 1", [], "init@2")).toBeUndefined();
+    expect(cache.size).toBe(0);
+  });
+});
@@ -0,0 +1,51 @@
+import { mkdtempSync, readFileSync, rmSync } from "fs";
+import { tmpdir } from "os";
+import { join } from "path";
+import { QueryHistory } from "../../../src/services/queryHistory.js";
+
+describe("QueryHistory", () => {
+  const entry = (sql: string, timestamp: string, status: "success" | "error" = "success") => ({
+    timestamp,
+    sql,
+    params: [],
+    duration_ms: 5,
+    row_count: status === "success" ? 1 : null,
+    status,
+    ...(status === "error" && { error: "boom" })
+  });
+
+  it("keeps only the most recent entries", () => {
+    const history = new QueryHistory({ maxEntries: 2 });
+    history.record(entry("SELECT 1", "2024-03-01T10:00:00.000Z"));
+    history.record(entry("SELECT 2", "2024-03-01T11:00:00.000Z"));
+    history.record(entry("SELECT 3", "2024-03-01T12:00:00.000Z"));
+
+    expect(history.list().map(e => [e.id, e.sql])).toEqual([[3, "SELECT 3"], [2, "SELECT 2"]]);
+  });
+
+  it("filters by time range, status and limit", () => {
+    const history = new QueryHistory({ maxEntries: 10 });
+    history.record(entry("SELECT 1", "2024-03-01T10:00:00.000Z"));
+    history.record(entry("SELECT bad", "2024-03-01T11:00:00.000Z", "error"));
+    history.record(entry("SELECT 3", "2024-03-01T12:00:00.000Z"));
+
+    expect(history.list({ since: new Date("2024-03-01T10:30:00Z") }).map(e => e.sql)).toEqual(["SELECT 3", "SELECT bad"]);
+    expect(history.list({ until: new Date("2024-03-01T11:00:00Z") }).map(e => e.sql)).toEqual(["SELECT bad", "SELECT 1"]);
+    expect(history.list({ status: "error" }).map(e => e.sql)).toEqual(["SELECT bad"]);
+    expect(history.list({ limit: 1 }).map(e => e.sql)).toEqual(["SELECT 3"]);
+  });
+
+  it("appends every entry to the history file", () => {
+    const dir = mkdtempSync(join(tmpdir(), "tailpipe-history-test-"));
+    const filePath = join(dir, "nested", "history.jsonl");
+    const history = new QueryHistory({ maxEntries: 1, filePath });
+
+    history.record(entry("SELECT 1", "2024-03-01T10:00:00.000Z"));
+    history.record(entry("SELECT 2", "2024-03-01T11:00:00.000Z"));
+
+    const lines = readFileSync(filePath, "utf8").trim().split("\n").map(line => JSON.parse(line));
+    expect(lines.map(line => line.sql)).toEqual(["SELECT 1", "SELECT 2"]);
+
+    rmSync(dir, { recursive: true, force: true });
+  });
+});
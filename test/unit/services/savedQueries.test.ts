@@ -0,0 +1,119 @@
+import { mkdtempSync, rmSync, writeFileSync } from "fs";
+import { tmpdir } from "os";
+import { join } from "path";
+import { SavedQueryLibrary, bindSavedQuery, parseSavedQuery } from "../../../src/services/savedQueries.js";
+
+const consoleLogins = `---
+name: console_logins_without_mfa
+description: Console logins without MFA
+parameters:
+  - name: since
+    type: string
+    default: "2024-01-01"
+  - name: user
+    type: string
+---
+SELECT * FROM aws_cloudtrail_log
+WHERE event_name = 'ConsoleLogin'
+  AND tp_timestamp >= $since
+  AND (user_identity.user_name = $user OR $user IS NULL)
+`;
+
+describe("parseSavedQuery", () => {
+  it("reads YAML front-matter", () => {
+    const query = parseSavedQuery(consoleLogins, "/queries/logins.sql");
+
+    expect(query).toMatchObject({
+      name: "console_logins_without_mfa",
+      description: "Console logins without MFA",
+      parameters: [
+        { name: "since", type: "string", default: "2024-01-01", required: false },
+        { name: "user", type: "string", required: true }
+      ],
+      path: "/queries/logins.sql"
+    });
+    expect(query.sql).toMatch(/^SELECT \* FROM aws_cloudtrail_log/);
+  });
+
+  it("reads JSON front-matter and defaults the name to the file name", () => {
+    const text = `---\n{ "description": "Bucket policy changes", "parameters": [{ "name": "days", "type": "integer", "default": 7 }] }\n---\nSELECT $days`;
+
+    expect(parseSavedQuery(text, "/queries/s3_bucket_policy_changes.sql")).toMatchObject({
+      name: "s3_bucket_policy_changes",
+      description: "Bucket policy changes",
+      parameters: [{ name: "days", type: "integer", default: 7, required: false }]
+    });
+  });
+
+  it("rejects SQL that uses undeclared parameters", () => {
+    expect(() => parseSavedQuery("SELECT $missing", "/queries/q.sql")).toThrow("uses undeclared parameter: $missing");
+  });
+
+  it("rejects positional placeholders alongside named parameters", () => {
+    const text = `---\nparameters:\n  - name: since\n---\nSELECT * FROM t WHERE a >= $since AND b = $1`;
+
+    expect(() => parseSavedQuery(text, "/queries/q.sql")).toThrow("mixes ? or $1 placeholders with $name parameters");
+    expect(() => parseSavedQuery("SELECT * FROM t WHERE a = ?", "/queries/q.sql")).toThrow("mixes ? or $1 placeholders");
+    expect(() => parseSavedQuery("SELECT '$1 ?' AS a$1", "/queries/q.sql")).not.toThrow();
+  });
+});
+
+describe("bindSavedQuery", () => {
+  const query = parseSavedQuery(consoleLogins, "/queries/logins.sql");
+
+  it("numbers placeholders and applies defaults", () => {
+    const { sql, params } = bindSavedQuery(query, { user: "alice" });
+
+    expect(sql).toContain("tp_timestamp >= $1");
+    expect(sql).toContain("user_identity.user_name = $2 OR $2 IS NULL");
+    expect(params).toEqual(["2024-01-01", "alice"]);
+  });
+
+  it("binds each statement of a batch on its own", () => {
+    const batch = parseSavedQuery(
+      "---\nparameters:\n  - name: user\n---\nSET VARIABLE who = $user;\nSELECT * FROM aws_cloudtrail_log WHERE user_identity.user_name = $user",
+      "/queries/batch.sql"
+    );
+
+    expect(bindSavedQuery(batch, { user: "alice" })).toEqual({
+      sql: "SET VARIABLE who = $1;\nSELECT * FROM aws_cloudtrail_log WHERE user_identity.user_name = $1",
+      params: ["alice", "alice"]
+    });
+  });
+
+  it.each([
+    [{}, "Missing required parameter user"],
+    [{ user: "alice", extra: 1 }, "Unknown parameter for saved query console_logins_without_mfa: extra"],
+    [{ user: 42 }, "Parameter user must be a string"]
+  ])("rejects %j", (values, message) => {
+    expect(() => bindSavedQuery(query, values)).toThrow(message);
+  });
+});
+
+describe("SavedQueryLibrary", () => {
+  let dir: string;
+
+  beforeEach(() => {
+    dir = mkdtempSync(join(tmpdir(), "tailpipe-saved-queries-"));
+  });
+
+  afterEach(() => {
+    rmSync(dir, { recursive: true, force: true });
+  });
+
+  it("loads .sql files and skips invalid ones", () => {
+    writeFileSync(join(dir, "logins.sql"), consoleLogins);
+    writeFileSync(join(dir, "broken.sql"), "SELECT $nope");
+    writeFileSync(join(dir, "notes.txt"), "not a query");
+
+    const library = new SavedQueryLibrary(dir);
+
+    expect(library.list().map(query => query.name)).toEqual(["console_logins_without_mfa"]);
+    expect(library.get("console_logins_without_mfa").path).toBe(join(dir, "logins.sql"));
+    expect(() => library.get("broken")).toThrow("Saved query not found: broken");
+  });
+
+  it("returns no queries when the directory does not exist", () => {
+    expect(new SavedQueryLibrary(join(dir, "missing")).list()).toEqual([]);
+  });
+});
@@ -0,0 +1,82 @@
+import { jest } from "@jest/globals";
+import { SchemaMonitor } from "../../../src/services/schemaMonitor.js";
+
+function mockDb() {
+  let views = [{ database_name: "memory", schema_name: "main", view_name: "aws_cloudtrail_log", sql: "SELECT * FROM read_parquet(['a.parquet'])" }];
+  const listeners: Array<() => void> = [];
+  const db = {
+    executeQuery: jest.fn<(sql: string) => Promise<any[]>>(async sql => sql.includes("information_schema.columns") ? [] : views),
+    onSessionChange: (listener: () => void) => listeners.push(listener),
+    // Replace the view definitions, as a new partition or init script would
+    setViews: (next: typeof views) => {
+      views = next;
+    },
+    rebuildSession: () => listeners.forEach(listener => listener())
+  };
+  return db;
+}
+
+describe("SchemaMonitor", () => {
+  it("notifies only when the fingerprint changes", async () => {
+    const db = mockDb();
+    const onChange = jest.fn();
+    const monitor = new SchemaMonitor(db as any, onChange);
+
+    await monitor.start(0);
+    expect(await monitor.check()).toBe(false);
+    expect(onChange).not.toHaveBeenCalled();
+
+    db.setViews([{ database_name: "memory", schema_name: "main", view_name: "aws_cloudtrail_log", sql: "SELECT * FROM read_parquet(['a.parquet', 'b.parquet'])" }]);
+    expect(await monitor.check()).toBe(true);
+    expect(onChange).toHaveBeenCalledTimes(1);
+
+    expect(await monitor.check()).toBe(false);
+    expect(onChange).toHaveBeenCalledTimes(1);
+  });
+
+  it("checks again when a new session is built", async () => {
+    const db = mockDb();
+    const onChange = jest.fn();
+    const monitor = new SchemaMonitor(db as any, onChange);
+    await monitor.start(0);
+
+    db.setViews([]);
+    db.rebuildSession();
+    await monitor.check();
+
+    expect(onChange).toHaveBeenCalledTimes(1);
+  });
+
+  it("keeps the last fingerprint when the schema cannot be read", async () => {
+    const db = mockDb();
+    const onChange = jest.fn();
+    const monitor = new SchemaMonitor(db as any, onChange);
+    await monitor.start(0);
+
+    db.executeQuery.mockRejectedValueOnce(new Error("Connection pool is closed"));
+    expect(await monitor.check()).toBe(false);
+    expect(await monitor.check()).toBe(false);
+    expect(onChange).not.toHaveBeenCalled();
+  });
+
+  it("polls at the given interval", async () => {
+    jest.useFakeTimers();
+    try {
+      const db = mockDb();
+      const onChange = jest.fn();
+      const monitor = new SchemaMonitor(db as any, onChange);
+      await monitor.start(1000);
+
+      db.setViews([]);
+      await jest.advanceTimersByTimeAsync(1000);
+      expect(onChange).toHaveBeenCalledTimes(1);
+
+      monitor.stop();
+      db.setViews([{ database_name: "memory", schema_name: "main", view_name: "other", sql: "SELECT 1" }]);
+      await jest.advanceTimersByTimeAsync(5000);
+      expect(onChange).toHaveBeenCalledTimes(1);
+    } finally {
+      jest.useRealTimers();
+    }
+  });
+});
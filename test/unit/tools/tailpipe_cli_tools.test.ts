@@ -61,25 +61,6 @@ describe("Tailpipe list tools", () => {
         }
       ]
     },
-    {
-      module: "../../../src/tools/tailpipe_table_list.js",
-      expectedCommand: "tailpipe table list --output json",
-      key: "tables",
-      raw: [
-        {
-          name: "table_a",
-          local: { file_count: 1, file_size: 1024 },
-          plugin: "aws"
-        }
-      ],
-      expected: [
-        {
-          name: "table_a",
-          local: { file_count: 1, file_size: 1024 },
-          plugin: "aws"
-        }
-      ]
-    },
     {
       module: "../../../src/tools/tailpipe_plugin_list.js",
       expectedCommand: "tailpipe plugin list --output json",
@@ -158,6 +139,33 @@ describe("Tailpipe list tools", () => {
     }
   );
 
+  it("tailpipe table list --output json returns formatted output and its source", async () => {
+    const { tool } = await loadTool("../../../src/tools/tailpipe_table_list.js");
+    const tables = [
+      {
+        name: "table_a",
+        local: { file_count: 1, file_size: 1024 },
+        plugin: "aws"
+      }
+    ];
+    executeCommandMock.mockReturnValue(JSON.stringify(tables));
+
+    const result = await tool.handler({});
+
+    expect(executeCommandMock).toHaveBeenCalledWith("tailpipe table list --output json", {
+      env: expect.any(Object)
+    });
+
+    const payload = JSON.parse(result.content[0].text);
+    expect(payload).toEqual({
+      tables,
+      source: "cli",
+      debug: {
+        command: "tailpipe table list --output json"
+      }
+    });
+  });
+
   it("returns formatted error details when the command fails", async () => {
     const { tool } = await loadTool("../../../src/tools/tailpipe_partition_list.js");
     const failure = new Error("cli failed");
@@ -195,12 +203,6 @@ describe("Tailpipe show tools", () => {
       args: { name: "source_a" },
       expectedCommand: "tailpipe source show source_a --output json",
       key: "source"
-    },
-    {
-      module: "../../../src/tools/tailpipe_table_show.js",
-      args: { name: "table_a" },
-      expectedCommand: "tailpipe table show table_a --output json",
-      key: "table"
     }
   ] as const;
 
@@ -231,6 +233,31 @@ describe("Tailpipe show tools", () => {
     }
   );
 
+  it("tailpipe table show table_a --output json wraps CLI output and its source", async () => {
+    const { tool } = await loadTool("../../../src/tools/tailpipe_table_show.js");
+    const details = { name: "table_a", status: "ok" };
+    executeCommandMock.mockReturnValue(JSON.stringify(details));
+
+    const result = await tool.handler({}, { name: "table_a" });
+
+    expect(executeCommandMock).toHaveBeenCalledWith("tailpipe table show table_a --output json", {
+      env: expect.any(Object)
+    });
+
+    expect(result).toEqual({
+      content: [
+        {
+          type: "text",
+          text: JSON.stringify({
+            table: details,
+            source: "cli",
+            debug: { command: "tailpipe table show table_a --output json" }
+          })
+        }
+      ]
+    });
+  });
+
   it("uses formatCommandError when the CLI call throws", async () => {
     const { tool } = await loadTool("../../../src/tools/tailpipe_plugin_show.js");
     const failure = new Error("permission denied");
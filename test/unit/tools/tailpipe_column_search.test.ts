@@ -0,0 +1,94 @@
+import { tool } from "../../../src/tools/tailpipe_column_search.js";
+import { QueryCancelledError } from "../../../src/services/database.js";
+import { catalogRow, mockCatalogDb } from "../../helpers/catalog.js";
+
+const catalogRows = [
+  catalogRow("aws_cloudtrail_log", "source_ip_address", "VARCHAR"),
+  catalogRow("aws_cloudtrail_log", "user_identity", "STRUCT(arn VARCHAR, session_context STRUCT(source_ip VARCHAR, created TIMESTAMP))"),
+  catalogRow("aws_cloudtrail_log", "resources", "STRUCT(arn VARCHAR, \"type\" VARCHAR)[]"),
+  catalogRow("aws_cloudtrail_log", "tp_timestamp", "TIMESTAMP", { nullable: false }),
+  catalogRow("aws_vpc_flow_log", "src_addr", "VARCHAR"),
+  catalogRow("aws_vpc_flow_log", "tp_timestamp", "TIMESTAMP", { nullable: false })
+];
+
+function mockDb() {
+  return mockCatalogDb(catalogRows);
+}
+
+async function search(args: Record<string, unknown>, db = mockDb()) {
+  const result = await (tool.handler as any)(db, args);
+  return { result, response: JSON.parse(result.content[0].text) };
+}
+
+const paths = (response: any) => response.matches.map((match: any) => `${match.table}:${match.path}`);
+
+describe("tailpipe_column_search tool", () => {
+  it("matches columns and nested struct fields by substring", async () => {
+    const { result, response } = await search({ pattern: "IP" });
+
+    expect(result.isError).toBe(false);
+    expect(paths(response)).toEqual([
+      "aws_cloudtrail_log:source_ip_address",
+      "aws_cloudtrail_log:user_identity.session_context.source_ip"
+    ]);
+    expect(response.matches[1]).toEqual({
+      table: "aws_cloudtrail_log",
+      schema: "main",
+      column: "user_identity",
+      path: "user_identity.session_context.source_ip",
+      type: "VARCHAR",
+      nested: true
+    });
+    expect(response.match_count).toBe(2);
+    expect(response.tables_searched).toBe(2);
+  });
+
+  it("matches whole names with wildcards, including fields of list elements", async () => {
+    const { response } = await search({ pattern: "arn" });
+    expect(paths(response)).toEqual(["aws_cloudtrail_log:user_identity.arn", "aws_cloudtrail_log:resources[].arn"]);
+
+    const { response: wildcard } = await search({ pattern: "src_*" });
+    expect(paths(wildcard)).toEqual(["aws_vpc_flow_log:src_addr"]);
+  });
+
+  it("matches patterns containing a dot against the full path", async () => {
+    const { response } = await search({ pattern: "session_context" });
+    expect(paths(response)).toEqual(["aws_cloudtrail_log:user_identity.session_context"]);
+
+    const { response: byPath } = await search({ pattern: "session_context.*" });
+    expect(paths(byPath)).toEqual([]);
+
+    const { response: nested } = await search({ pattern: "*.session_context.*" });
+    expect(paths(nested)).toEqual([
+      "aws_cloudtrail_log:user_identity.session_context.source_ip",
+      "aws_cloudtrail_log:user_identity.session_context.created"
+    ]);
+  });
+
+  it("supports regular expressions and type and table filters", async () => {
+    const { response } = await search({ pattern: "^(tp_timestamp|created)$", regex: true, type: "timestamp", table: "cloudtrail" });
+
+    expect(paths(response)).toEqual([
+      "aws_cloudtrail_log:user_identity.session_context.created",
+      "aws_cloudtrail_log:tp_timestamp"
+    ]);
+    expect(response.tables_searched).toBe(1);
+  });
+
+  it("reports invalid regular expressions", async () => {
+    const { result, response } = await search({ pattern: "(", regex: true });
+
+    expect(result.isError).toBe(true);
+    expect(response.error).toMatch(/^Invalid regular expression/);
+  });
+
+  it("reports cancellation", async () => {
+    const db = mockDb();
+    db.executeQuery.mockRejectedValue(new QueryCancelledError("cancelled", "Query was cancelled"));
+
+    const { result, response } = await search({ pattern: "arn" }, db);
+
+    expect(result.isError).toBe(true);
+    expect(response.cancelled).toBe(true);
+  });
+});
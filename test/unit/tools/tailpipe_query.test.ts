@@ -1,27 +1,50 @@
 import { jest } from "@jest/globals";
 import { tool as tailpipeQuery } from "../../../src/tools/tailpipe_query.js";
+import { QueryCancelledError } from "../../../src/services/database.js";
+import { queryCache } from "../../../src/services/queryCache.js";
+import { queryHistory } from "../../../src/services/queryHistory.js";
 
-const handler = tailpipeQuery.handler as (db: any, args: { sql: string }) => Promise<any>;
+const handler = tailpipeQuery.handler as (
+  db: any,
+  args: { sql: string; params?: any[]; limit?: number; cursor?: string; timeout_ms?: number; no_cache?: boolean; format?: string; on_error?: string },
+  context?: { signal?: AbortSignal; sendProgress?: (progress: number, message?: string) => void }
+) => Promise<any>;
+
+const describeQuery = jest.fn<(sql: string) => Promise<any[]>>();
 
 describe("tailpipe_query tool", () => {
+  beforeEach(() => {
+    queryCache.clear();
+    queryHistory.clear();
+    describeQuery.mockReset().mockResolvedValue([{ name: "id", type: "INTEGER" }]);
+  });
+
   it("returns query results and converts bigints", async () => {
     const executeQuery = jest.fn<(sql: string) => Promise<any[]>>();
     executeQuery.mockResolvedValue([
       { id: BigInt(10), name: "alpha" },
       { id: BigInt(Number.MAX_SAFE_INTEGER + 1), name: "beta" }
     ]);
+    describeQuery.mockResolvedValue([
+      { name: "id", type: "BIGINT" },
+      { name: "name", type: "VARCHAR" }
+    ]);
 
     const result = await handler(
-      { executeQuery } as any,
+      { executeQuery, describeQuery } as any,
       { sql: "SELECT id, name FROM test" }
     );
 
-    expect(executeQuery).toHaveBeenCalledWith("SELECT id, name FROM test");
+    expect(executeQuery).toHaveBeenCalledWith(
+      "SELECT * FROM (SELECT id, name FROM test) AS tailpipe_page LIMIT 1001 OFFSET 0",
+      [],
+      { timeoutMs: undefined, signal: undefined }
+    );
     expect(result).toEqual({
       content: [
         {
           type: "text",
-          text: '[{"id":10,"name":"alpha"},{"id":"9007199254740992","name":"beta"}]'
+          text: '{"columns":[{"name":"id","type":"BIGINT"},{"name":"name","type":"VARCHAR"}],"rows":[{"id":10,"name":"alpha"},{"id":"9007199254740992","name":"beta"}],"row_count":2,"truncated":false,"cached":false}'
         }
       ],
       isError: false
@@ -33,7 +56,7 @@ describe("tailpipe_query tool", () => {
     executeQuery.mockRejectedValue(new Error("query failed"));
 
     const result = await handler(
-      { executeQuery } as any,
+      { executeQuery, describeQuery } as any,
       { sql: "SELECT 1" }
     );
 
@@ -47,5 +70,371 @@ describe("tailpipe_query tool", () => {
       isError: true
     });
   });
-});
 
+  it("pages results with a cursor", async () => {
+    const executeQuery = jest.fn<(sql: string) => Promise<any[]>>();
+    executeQuery.mockResolvedValueOnce([{ id: 1 }, { id: 2 }, { id: 3 }]);
+    const sql = "SELECT id FROM test ORDER BY id";
+
+    const first = await handler({ executeQuery, describeQuery } as any, { sql, limit: 2 });
+    const firstPage = JSON.parse(first.content[0].text);
+
+    expect(firstPage).toMatchObject({ rows: [{ id: 1 }, { id: 2 }], row_count: 2, truncated: true });
+    expect(firstPage.next_cursor).toEqual(expect.any(String));
+
+    executeQuery.mockResolvedValueOnce([{ id: 3 }]);
+    const second = await handler({ executeQuery, describeQuery } as any, { sql, limit: 2, cursor: firstPage.next_cursor });
+
+    expect(executeQuery).toHaveBeenLastCalledWith(
+      "SELECT * FROM (SELECT id FROM test ORDER BY id) AS tailpipe_page LIMIT 3 OFFSET 2",
+      [],
+      expect.any(Object)
+    );
+    expect(JSON.parse(second.content[0].text)).toEqual({
+      columns: [{ name: "id", type: "INTEGER" }],
+      rows: [{ id: 3 }],
+      row_count: 1,
+      truncated: false,
+      cached: false
+    });
+  });
+
+  it("returns columns for an empty result", async () => {
+    const executeQuery = jest.fn<(sql: string) => Promise<any[]>>();
+    executeQuery.mockResolvedValue([]);
+    describeQuery.mockResolvedValue([{ name: "event_time", type: "TIMESTAMP" }]);
+
+    const result = await handler(
+      { executeQuery, describeQuery } as any,
+      { sql: "SELECT event_time FROM test WHERE false" }
+    );
+
+    expect(describeQuery).toHaveBeenCalledWith(
+      "SELECT * FROM (SELECT event_time FROM test WHERE false) AS tailpipe_page LIMIT 1001 OFFSET 0"
+    );
+    expect(JSON.parse(result.content[0].text)).toEqual({
+      columns: [{ name: "event_time", type: "TIMESTAMP" }],
+      rows: [],
+      row_count: 0,
+      truncated: false,
+      cached: false
+    });
+  });
+
+  it("rejects a cursor issued for a different query", async () => {
+    const executeQuery = jest.fn<(sql: string) => Promise<any[]>>();
+    executeQuery.mockResolvedValue([{ id: 1 }, { id: 2 }]);
+
+    const first = await handler({ executeQuery, describeQuery } as any, { sql: "SELECT 1 AS id", limit: 1 });
+    const { next_cursor } = JSON.parse(first.content[0].text);
+    const result = await handler({ executeQuery, describeQuery } as any, { sql: "SELECT 2 AS id", cursor: next_cursor });
+
+    expect(result.isError).toBe(true);
+    expect(JSON.parse(result.content[0].text).error).toMatch(/Cursor does not belong to this query/);
+  });
+
+  it("passes the timeout and cancellation signal through to the database", async () => {
+    const executeQuery = jest.fn<(sql: string, params: any[], options: any) => Promise<any[]>>();
+    executeQuery.mockRejectedValue(new QueryCancelledError("timeout", "Query timed out after 50ms"));
+    const signal = new AbortController().signal;
+
+    const result = await handler(
+      { executeQuery, describeQuery } as any,
+      { sql: "SELECT 1", timeout_ms: 50 },
+      { signal }
+    );
+
+    expect(executeQuery).toHaveBeenCalledWith(expect.any(String), [], { timeoutMs: 50, signal });
+    expect(result).toEqual({
+      content: [
+        {
+          type: "text",
+          text: '{"error":"Query timed out after 50ms","cancelled":true,"reason":"timeout"}'
+        }
+      ],
+      isError: true
+    });
+  });
+
+  it("reports rows fetched as progress when the client asked for it", async () => {
+    const executeQuery = jest.fn<(sql: string, params: any[], options: any) => Promise<any[]>>();
+    executeQuery.mockImplementation(async (_sql, _params, options) => {
+      options.onProgress({ rows: 2048, elapsedMs: 1500 });
+      return [{ id: 1 }];
+    });
+    const sendProgress = jest.fn();
+
+    await handler({ executeQuery, describeQuery } as any, { sql: "SELECT id FROM test" }, { sendProgress });
+
+    expect(sendProgress).toHaveBeenCalledWith(2048, "Fetched 2048 rows in 1.5s");
+  });
+
+  it("converts lossy DuckDB types in SQL and serializes values", async () => {
+    const executeQuery = jest.fn<(sql: string) => Promise<any[]>>();
+    executeQuery.mockResolvedValue([
+      { amount: "12345678901234567890.12", seen: "2024-03-01T10:00:00.123456Z", day: new Date("2024-03-01T00:00:00Z") }
+    ]);
+    describeQuery.mockResolvedValue([
+      { name: "amount", type: "DECIMAL(38,2)" },
+      { name: "seen", type: "TIMESTAMP WITH TIME ZONE" },
+      { name: "day", type: "DATE" }
+    ]);
+
+    const result = await handler(
+      { executeQuery, describeQuery } as any,
+      { sql: "SELECT amount, seen, day FROM test" }
+    );
+
+    expect(executeQuery).toHaveBeenCalledWith(
+      `SELECT * REPLACE (CAST("amount" AS VARCHAR) AS "amount", strftime(timezone('UTC', "seen"), '%Y-%m-%dT%H:%M:%S.%fZ') AS "seen") FROM (SELECT * FROM (SELECT amount, seen, day FROM test) AS tailpipe_page LIMIT 1001 OFFSET 0) AS tailpipe_values`,
+      [],
+      expect.any(Object)
+    );
+    expect(JSON.parse(result.content[0].text).rows).toEqual([
+      { amount: "12345678901234567890.12", seen: "2024-03-01T10:00:00.123456Z", day: "2024-03-01" }
+    ]);
+  });
+
+  it("serves repeated queries from the cache unless bypassed", async () => {
+    const executeQuery = jest.fn<(sql: string) => Promise<any[]>>();
+    executeQuery.mockResolvedValue([{ id: 1 }]);
+    const db = { executeQuery, describeQuery, initScriptFingerprint: "/tmp/init.sql@1" };
+
+    const first = await handler(db as any, { sql: "SELECT id FROM test" });
+    const second = await handler(db as any, { sql: "SELECT   id\nFROM test -- again" });
+    const bypassed = await handler(db as any, { sql: "SELECT id FROM test", no_cache: true });
+
+    expect(JSON.parse(first.content[0].text).cached).toBe(false);
+    expect(JSON.parse(second.content[0].text)).toMatchObject({ rows: [{ id: 1 }], cached: true });
+    expect(JSON.parse(bypassed.content[0].text).cached).toBe(false);
+    expect(executeQuery).toHaveBeenCalledTimes(2);
+
+    db.initScriptFingerprint = "/tmp/init.sql@2";
+    await handler(db as any, { sql: "SELECT id FROM test" });
+    expect(executeQuery).toHaveBeenCalledTimes(3);
+  });
+
+  it("does not cache a result for a session swapped in while the query ran", async () => {
+    const db = { executeQuery: jest.fn<(sql: string) => Promise<any[]>>(), describeQuery, initScriptFingerprint: "/tmp/init.sql@2#1" };
+    db.executeQuery.mockImplementationOnce(async () => {
+      db.initScriptFingerprint = "/tmp/init.sql@2#2";
+      return [{ id: 1 }];
+    });
+    db.executeQuery.mockResolvedValue([{ id: 2 }]);
+
+    await handler(db as any, { sql: "SELECT id FROM test" });
+    const second = await handler(db as any, { sql: "SELECT id FROM test" });
+
+    expect(JSON.parse(second.content[0].text)).toMatchObject({ rows: [{ id: 2 }], cached: false });
+  });
+
+  it("binds params to the query", async () => {
+    const executeQuery = jest.fn<(sql: string, params: any[]) => Promise<any[]>>();
+    executeQuery.mockResolvedValue([{ id: 1 }]);
+
+    await handler(
+      { executeQuery, describeQuery } as any,
+      { sql: "SELECT id FROM test WHERE source_ip = ? AND error_code IS ?", params: ["10.0.0.1", null] }
+    );
+
+    expect(executeQuery).toHaveBeenCalledWith(
+      "SELECT * FROM (SELECT id FROM test WHERE source_ip = ? AND error_code IS ?) AS tailpipe_page LIMIT 1001 OFFSET 0",
+      ["10.0.0.1", null],
+      expect.any(Object)
+    );
+  });
+
+  it("binds named placeholders in order of first appearance", async () => {
+    const executeQuery = jest.fn<(sql: string, params: any[]) => Promise<any[]>>();
+    executeQuery.mockResolvedValue([{ id: 1 }]);
+
+    await handler(
+      { executeQuery, describeQuery } as any,
+      { sql: "SELECT id FROM test WHERE user_name = $user AND tp_date >= $since OR principal = $user", params: ["alice", "2024-03-01"] }
+    );
+
+    expect(executeQuery).toHaveBeenCalledWith(
+      "SELECT * FROM (SELECT id FROM test WHERE user_name = $1 AND tp_date >= $2 OR principal = $1) AS tailpipe_page LIMIT 1001 OFFSET 0",
+      ["alice", "2024-03-01"],
+      expect.any(Object)
+    );
+  });
+
+  it("rejects queries that mix placeholder styles", async () => {
+    const executeQuery = jest.fn<(sql: string) => Promise<any[]>>();
+
+    const result = await handler(
+      { executeQuery, describeQuery } as any,
+      { sql: "SELECT * FROM test WHERE user_name = $user OR principal = ?", params: ["alice", "bob"] }
+    );
+
+    expect(executeQuery).not.toHaveBeenCalled();
+    expect(JSON.parse(result.content[0].text).error).toBe("Query mixes ? and $name placeholders. Use one placeholder style per statement.");
+  });
+
+  it("rejects params that do not match the placeholders", async () => {
+    const executeQuery = jest.fn<(sql: string) => Promise<any[]>>();
+
+    const result = await handler(
+      { executeQuery, describeQuery } as any,
+      { sql: "SELECT * FROM test WHERE user_name = $1 OR principal = $1", params: ["alice", "bob"] }
+    );
+
+    expect(executeQuery).not.toHaveBeenCalled();
+    expect(result).toEqual({
+      content: [
+        {
+          type: "text",
+          text: '{"error":"Query has 1 parameter placeholder but 2 values were provided in params"}'
+        }
+      ],
+      isError: true
+    });
+  });
+
+  it("records successful and failed queries in the history", async () => {
+    const executeQuery = jest.fn<(sql: string) => Promise<any[]>>();
+    executeQuery.mockResolvedValueOnce([{ id: 1 }]).mockRejectedValueOnce(new Error("no such table"));
+
+    await handler({ executeQuery, describeQuery } as any, { sql: "SELECT id FROM test WHERE id = ?", params: [1] });
+    await handler({ executeQuery, describeQuery } as any, { sql: "SELECT id FROM missing" });
+
+    expect(queryHistory.list()).toEqual([
+      expect.objectContaining({ sql: "SELECT id FROM missing", params: [], status: "error", row_count: null, error: "no such table" }),
+      expect.objectContaining({ sql: "SELECT id FROM test WHERE id = ?", params: [1], status: "success", row_count: 1, cached: false })
+    ]);
+  });
+
+  it("clips oversized values and describes the truncation", async () => {
+    const executeQuery = jest.fn<(sql: string) => Promise<any[]>>();
+    executeQuery.mockResolvedValue([{ id: 1, request_parameters: "x".repeat(100 * 1024) }]);
+
+    const result = await handler({ executeQuery, describeQuery } as any, { sql: "SELECT * FROM aws_cloudtrail_log" });
+
+    const body = JSON.parse(result.content[0].text);
+    expect(body.rows[0].request_parameters).toMatch(/…\[truncated 86016 of 102400 bytes\]$/);
+    expect(body.truncation.clipped_values).toEqual([
+      { path: "rows[0].request_parameters", original_bytes: 102400, kept_bytes: 16384 }
+    ]);
+  });
+
+  describe("batches", () => {
+    const sql = "CREATE TEMP MACRO is_root(arn) AS arn LIKE '%:root'; SELECT 1 AS id; SELECT nope; SELECT $1 AS id";
+
+    function batchDb() {
+      const executeQuery = jest.fn<(sql: string, params?: any[]) => Promise<any[]>>();
+      executeQuery.mockImplementation(async query => {
+        if (query.includes("nope")) {
+          throw new Error('Binder Error: Referenced column "nope" not found');
+        }
+        return query.startsWith("SELECT * FROM") ? [{ id: 1 }] : [];
+      });
+      const db: any = { executeQuery, describeQuery };
+      db.withSession = (fn: (session: unknown) => Promise<unknown>) => fn(db);
+      return db;
+    }
+
+    it("returns each statement's result in order and stops at the first error", async () => {
+      const db = batchDb();
+
+      const result = await handler(db as any, { sql, params: [2] });
+
+      expect(result.isError).toBe(true);
+      expect(JSON.parse(result.content[0].text).results).toEqual([
+        { index: 0, statement: "CREATE TEMP MACRO is_root(arn) AS arn LIKE '%:root'", status: "success" },
+        { index: 1, statement: "SELECT 1 AS id", status: "success", columns: [{ name: "id", type: "INTEGER" }], rows: [{ id: 1 }], row_count: 1, truncated: false },
+        { index: 2, statement: "SELECT nope", status: "error", error: 'Binder Error: Referenced column "nope" not found' },
+        { index: 3, statement: "SELECT $1 AS id", status: "skipped" }
+      ]);
+      // The macro is dropped once the batch finishes
+      expect(db.executeQuery).toHaveBeenLastCalledWith("DROP MACRO IF EXISTS temp.main.is_root", [], {});
+    });
+
+    it("restores variables the batch overwrote instead of removing them", async () => {
+      const db = batchDb();
+      db.executeQuery.mockImplementation(async (query: string) =>
+        query.includes("duckdb_variables()") ? [{ name: "since" }] : query.startsWith("SELECT * FROM") ? [{ id: 1 }] : []
+      );
+
+      const result = await handler(db as any, { sql: "SET VARIABLE since = '2024-03-01'; SELECT 1 AS id" });
+
+      expect(result.isError).toBe(false);
+      const statements = db.executeQuery.mock.calls.map(([query]: [string]) => query);
+      expect(statements).toEqual(expect.arrayContaining([
+        "SET VARIABLE tailpipe_batch_saved_0 = getvariable('since')",
+        "SET VARIABLE since = '2024-03-01'"
+      ]));
+      expect(statements.slice(-2)).toEqual([
+        "SET VARIABLE since = getvariable('tailpipe_batch_saved_0')",
+        "RESET VARIABLE tailpipe_batch_saved_0"
+      ]);
+      expect(statements).not.toContain("RESET VARIABLE since");
+    });
+
+    it("does not drop macros that existed before the batch", async () => {
+      const db = batchDb();
+      db.executeQuery.mockImplementation(async (query: string) => {
+        if (query.includes("duckdb_functions()")) {
+          return [{ function_name: "is_root" }];
+        }
+        if (query.startsWith("CREATE TEMP MACRO")) {
+          throw new Error('Catalog Error: Macro Function with name "is_root" already exists!');
+        }
+        return [];
+      });
+
+      await handler(db as any, { sql: "CREATE TEMP MACRO is_root(arn) AS arn LIKE '%:root'; SELECT 1 AS id" });
+
+      expect(db.executeQuery).not.toHaveBeenCalledWith(expect.stringContaining("DROP MACRO"), [], {});
+    });
+
+    it("keeps going after an error when asked to", async () => {
+      const db = batchDb();
+
+      const result = await handler(db as any, { sql, params: [2], on_error: "continue" });
+
+      const results = JSON.parse(result.content[0].text).results;
+      expect(results.map((r: any) => r.status)).toEqual(["success", "success", "error", "success"]);
+      expect(db.executeQuery).toHaveBeenCalledWith(
+        "SELECT * FROM (SELECT $1 AS id) AS tailpipe_page LIMIT 1001 OFFSET 0",
+        [2],
+        expect.anything()
+      );
+    });
+
+    it.each([
+      [{ sql: "SET VARIABLE x = 1; DROP TABLE aws_cloudtrail_log" }, /^Statement 2: Only read-only queries are allowed/],
+      [{ sql: "SELECT ?; SELECT ?", params: [1] }, "Batch has 2 parameter placeholders but 1 value was provided in params"],
+      [{ sql: "SELECT 1; SELECT $1, $name", params: [1, 2] }, "Statement 2: Query mixes $1 and $name placeholders"],
+      [{ sql: "SELECT 1; SELECT 2", format: "csv" }, "format csv cannot be used with a multi-statement batch, which always returns JSON"]
+    ])("rejects %j", async (args, message) => {
+      const db = batchDb();
+
+      const result = await handler(db as any, args as any);
+
+      expect(result.isError).toBe(true);
+      expect(JSON.parse(result.content[0].text).error).toMatch(message);
+      expect(db.executeQuery).not.toHaveBeenCalled();
+    });
+  });
+
+  it("rejects statements that are not read-only", async () => {
+    const executeQuery = jest.fn<(sql: string) => Promise<any[]>>();
+
+    const result = await handler(
+      { executeQuery, describeQuery } as any,
+      { sql: "DROP VIEW aws_cloudtrail_log" }
+    );
+
+    expect(executeQuery).not.toHaveBeenCalled();
+    expect(result).toEqual({
+      content: [
+        {
+          type: "text",
+          text: '{"error":"Only read-only queries are allowed. DROP statements are not permitted."}'
+        }
+      ],
+      isError: true
+    });
+  });
+});
@@ -0,0 +1,74 @@
+import { jest } from "@jest/globals";
+import { tool as queryExplain } from "../../../src/tools/tailpipe_query_explain.js";
+
+const handler = queryExplain.handler as (db: any, args: { sql: string; analyze?: boolean }) => Promise<any>;
+
+describe("tailpipe_query_explain tool", () => {
+  it("returns the plan and flags full parquet scans", async () => {
+    const plan = [{
+      name: "PROJECTION",
+      extra_info: { Projections: "event_name" },
+      children: [{
+        name: "TABLE_SCAN",
+        extra_info: { Function: "READ_PARQUET", "Scanning Files": "120/120" },
+        children: []
+      }]
+    }];
+    const executeQuery = jest.fn<(sql: string) => Promise<any[]>>();
+    executeQuery.mockResolvedValue([{ explain_key: "physical_plan", explain_value: JSON.stringify(plan) }]);
+
+    const result = await handler({ executeQuery } as any, { sql: "SELECT event_name FROM aws_cloudtrail_log;" });
+    const payload = JSON.parse(result.content[0].text);
+
+    expect(executeQuery).toHaveBeenCalledWith(
+      "EXPLAIN (FORMAT JSON) SELECT event_name FROM aws_cloudtrail_log",
+      [],
+      expect.any(Object)
+    );
+    expect(payload.summary).toEqual({
+      parquet_scans: 1,
+      full_scans: 1,
+      files_touched: 120,
+      time_filter_pushed_down: false,
+      warnings: [
+        "Full scan of parquet files in READ_PARQUET",
+        "No tp_date/tp_timestamp filter pushed down to READ_PARQUET"
+      ]
+    });
+    expect(payload.plan[0].children[0].name).toBe("TABLE_SCAN");
+  });
+
+  it("reports time filters pushed down in EXPLAIN ANALYZE output", async () => {
+    const profile = {
+      query_name: "SELECT ...",
+      children: [{
+        operator_name: "READ_PARQUET ",
+        operator_cardinality: 42,
+        extra_info: { Filters: "tp_date>='2024-03-01'::DATE", "Total Files Read": "3" },
+        children: []
+      }]
+    };
+    const executeQuery = jest.fn<(sql: string) => Promise<any[]>>();
+    executeQuery.mockResolvedValue([{ explain_key: "analyzed_plan", explain_value: JSON.stringify(profile) }]);
+
+    const result = await handler(
+      { executeQuery } as any,
+      { sql: "SELECT * FROM aws_cloudtrail_log WHERE tp_date >= '2024-03-01'", analyze: true }
+    );
+    const payload = JSON.parse(result.content[0].text);
+
+    expect(executeQuery.mock.calls[0][0]).toMatch(/^EXPLAIN \(ANALYZE, FORMAT JSON\) SELECT/);
+    expect(payload.analyzed).toBe(true);
+    expect(payload.plan[0]).toMatchObject({ name: "READ_PARQUET", cardinality: 42 });
+    expect(payload.summary).toMatchObject({ full_scans: 0, files_touched: 3, time_filter_pushed_down: true, warnings: [] });
+  });
+
+  it("refuses to explain statements that are not read-only", async () => {
+    const executeQuery = jest.fn<(sql: string) => Promise<any[]>>();
+
+    const result = await handler({ executeQuery } as any, { sql: "CREATE TABLE t AS SELECT 1", analyze: true });
+
+    expect(executeQuery).not.toHaveBeenCalled();
+    expect(result.isError).toBe(true);
+  });
+});
@@ -0,0 +1,109 @@
+import { jest } from "@jest/globals";
+import { existsSync, mkdtempSync, rmSync, writeFileSync } from "fs";
+import { tmpdir } from "os";
+import { join } from "path";
+
+const root = mkdtempSync(join(tmpdir(), "tailpipe-export-tool-"));
+process.env.TAILPIPE_MCP_EXPORT_DIR = root;
+
+const { tool: queryExport } = await import("../../../src/tools/tailpipe_query_export.js");
+
+const handler = queryExport.handler as (db: any, args: Record<string, unknown>) => Promise<any>;
+
+// Stands in for DuckDB by writing the file named in the COPY statement
+function copyTo(contents: string, count: number) {
+  const executeQuery = jest.fn<(sql: string, params: any[], options: any) => Promise<any[]>>();
+  executeQuery.mockImplementation(async sql => {
+    writeFileSync(sql.match(/TO '([^']+)'/)![1], contents);
+    return [{ Count: BigInt(count) }];
+  });
+  return executeQuery;
+}
+
+describe("tailpipe_query_export tool", () => {
+  afterAll(() => {
+    rmSync(root, { recursive: true, force: true });
+  });
+
+  it("binds named placeholders in order of first appearance", async () => {
+    const executeQuery = copyTo("id\n1\n", 1);
+
+    await handler({ executeQuery } as any, {
+      sql: "SELECT id FROM test WHERE id > $min AND id < $max AND id <> $min",
+      params: [0, 10],
+      format: "csv",
+      filename: "named"
+    });
+
+    expect(executeQuery).toHaveBeenCalledWith(
+      `COPY (SELECT id FROM test WHERE id > $1 AND id < $2 AND id <> $1) TO '${join(root, "named.csv")}' (FORMAT CSV, HEADER)`,
+      [0, 10],
+      expect.any(Object)
+    );
+  });
+
+  it("writes the query result under the export directory", async () => {
+    const executeQuery = copyTo("id\n1\n2\n", 2);
+
+    const result = await handler({ executeQuery } as any, {
+      sql: "SELECT id FROM test WHERE id > ?;",
+      params: [0],
+      format: "csv",
+      filename: "ids"
+    });
+
+    expect(executeQuery).toHaveBeenCalledWith(
+      `COPY (SELECT id FROM test WHERE id > ?) TO '${join(root, "ids.csv")}' (FORMAT CSV, HEADER)`,
+      [0],
+      expect.any(Object)
+    );
+    expect(JSON.parse(result.content[0].text)).toEqual({
+      path: join(root, "ids.csv"),
+      format: "csv",
+      row_count: 2,
+      bytes: 7
+    });
+  });
+
+  it("refuses to replace an existing file unless asked", async () => {
+    const executeQuery = copyTo("{}\n", 1);
+    await handler({ executeQuery } as any, { sql: "SELECT 1", format: "jsonl", filename: "once" });
+
+    const again = await handler({ executeQuery } as any, { sql: "SELECT 1", format: "jsonl", filename: "once" });
+    expect(again.isError).toBe(true);
+    expect(JSON.parse(again.content[0].text).error).toContain("Export file already exists");
+
+    const replaced = await handler({ executeQuery } as any, { sql: "SELECT 1", format: "jsonl", filename: "once", overwrite: true });
+    expect(replaced.isError).toBe(false);
+  });
+
+  it("rejects paths outside the export directory", async () => {
+    const executeQuery = copyTo("", 0);
+
+    const result = await handler({ executeQuery } as any, { sql: "SELECT 1", filename: "../escape.parquet" });
+
+    expect(result.isError).toBe(true);
+    expect(executeQuery).not.toHaveBeenCalled();
+  });
+
+  it("removes a partially written file when the export fails", async () => {
+    const executeQuery = jest.fn<(sql: string) => Promise<any[]>>();
+    executeQuery.mockImplementation(async sql => {
+      writeFileSync(sql.match(/TO '([^']+)'/)![1], "partial");
+      throw new Error("disk full");
+    });
+
+    const result = await handler({ executeQuery } as any, { sql: "SELECT 1", filename: "broken" });
+
+    expect(JSON.parse(result.content[0].text)).toEqual({ error: "disk full" });
+    expect(existsSync(join(root, "broken.parquet"))).toBe(false);
+  });
+
+  it("only exports a single SELECT or WITH query", async () => {
+    const executeQuery = copyTo("", 0);
+
+    const result = await handler({ executeQuery } as any, { sql: "DESCRIBE test" });
+
+    expect(JSON.parse(result.content[0].text)).toEqual({ error: "Only a single SELECT or WITH query can be exported" });
+  });
+});
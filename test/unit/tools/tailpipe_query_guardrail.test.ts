@@ -0,0 +1,42 @@
+import { jest } from "@jest/globals";
+
+process.env.TAILPIPE_MCP_TIME_RANGE_GUARDRAIL = "block";
+
+const { tool: tailpipeQuery } = await import("../../../src/tools/tailpipe_query.js");
+
+const handler = tailpipeQuery.handler as (db: any, args: Record<string, unknown>) => Promise<any>;
+
+function mockDb() {
+  const executeQuery = jest.fn<(sql: string) => Promise<any[]>>();
+  executeQuery.mockImplementation(async sql =>
+    sql.includes("information_schema.columns") ? [{ table_name: "aws_cloudtrail_log" }] : [{ n: 1 }]
+  );
+  const describeQuery = jest.fn<(sql: string) => Promise<any[]>>();
+  describeQuery.mockResolvedValue([{ name: "n", type: "INTEGER" }]);
+  return { executeQuery, describeQuery, initScriptFingerprint: "init@1" };
+}
+
+describe("tailpipe_query time-range guardrail", () => {
+  it("refuses to scan a log table without a time filter", async () => {
+    const db = mockDb();
+
+    const result = await handler(db, { sql: "SELECT count(*) AS n FROM aws_cloudtrail_log" });
+
+    expect(result.isError).toBe(true);
+    expect(JSON.parse(result.content[0].text).error).toMatch(/^No tp_date or tp_timestamp filter on aws_cloudtrail_log/);
+    expect(db.executeQuery).toHaveBeenCalledTimes(1);
+  });
+
+  it("runs queries with a time filter", async () => {
+    const result = await handler(mockDb(), { sql: "SELECT count(*) AS n FROM aws_cloudtrail_log WHERE tp_date = current_date" });
+
+    expect(result.isError).toBe(false);
+  });
+
+  it("runs a full scan when the caller acknowledges it", async () => {
+    const result = await handler(mockDb(), { sql: "SELECT count(*) AS n FROM aws_cloudtrail_log", acknowledge_full_scan: true, no_cache: true });
+
+    expect(result.isError).toBe(false);
+    expect(JSON.parse(result.content[0].text).rows).toEqual([{ n: 1 }]);
+  });
+});
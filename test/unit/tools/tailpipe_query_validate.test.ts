@@ -0,0 +1,93 @@
+import { tool as queryValidate } from "../../../src/tools/tailpipe_query_validate.js";
+import { catalogRow, mockCatalogDb } from "../../helpers/catalog.js";
+
+const handler = queryValidate.handler as (db: any, args: { sql: string }) => Promise<any>;
+
+const catalog = [
+  ...["tp_timestamp", "tp_date", "event_name", "user_identity", "source_ip_address"].map(column =>
+    catalogRow("aws_cloudtrail_log", column, "VARCHAR")
+  ),
+  ...["tp_timestamp", "tp_date", "client_ip", "request_uri"].map(column =>
+    catalogRow("aws_alb_access_log", column, "VARCHAR")
+  )
+];
+
+function mockDb(parsed: object = { error: false, statements: [] }) {
+  return mockCatalogDb(catalog, () => [{ parsed: JSON.stringify(parsed) }]);
+}
+
+async function validate(sql: string, db = mockDb()) {
+  const result = await handler(db as any, { sql });
+  return JSON.parse(result.content[0].text);
+}
+
+describe("tailpipe_query_validate tool", () => {
+  it("accepts queries whose tables and columns exist", async () => {
+    const result = await validate(`
+      WITH logins AS (
+        SELECT c.event_name AS name, user_identity.user_name AS user_name
+        FROM aws_cloudtrail_log c
+        WHERE c.tp_date > current_date - 1
+      )
+      SELECT name, count(*) AS n FROM logins
+      WHERE user_name IN (SELECT request_uri FROM aws_alb_access_log)
+      GROUP BY name ORDER BY n DESC
+    `);
+
+    expect(result).toEqual({ valid: true, issues: [], tables: ["aws_cloudtrail_log", "aws_alb_access_log"], identifiers_checked: true });
+  });
+
+  it("reports unknown tables and columns with suggestions and positions", async () => {
+    const result = await validate("SELECT evnt_name,\n  c.source_ip\nFROM aws_cloudtrail_log c");
+
+    expect(result.valid).toBe(false);
+    expect(result.issues).toEqual([
+      expect.objectContaining({ type: "unknown_column", name: "evnt_name", line: 1, column: 8, suggestions: ["event_name"] }),
+      expect.objectContaining({ type: "unknown_column", name: "source_ip", table: "c", line: 2, column: 3, suggestions: ["source_ip_address"] })
+    ]);
+    expect(result.issues[0].message).toBe('Unknown column "evnt_name". Did you mean "event_name"?');
+  });
+
+  it("does not report columns that could belong to an unknown table", async () => {
+    const result = await validate("SELECT anything FROM aws_cloudtrail_logs");
+
+    expect(result.issues).toEqual([
+      {
+        type: "unknown_table",
+        message: 'Unknown table "aws_cloudtrail_logs". Did you mean "aws_cloudtrail_log"?',
+        name: "aws_cloudtrail_logs",
+        line: 1,
+        column: 22,
+        suggestions: ["aws_cloudtrail_log"]
+      }
+    ]);
+  });
+
+  it("reports DuckDB syntax errors with line and column", async () => {
+    const db = mockDb({ error: true, error_type: "parser", error_message: 'syntax error at or near "FRM"', position: "18" });
+
+    const result = await validate("SELECT event_name\nFRM aws_cloudtrail_log", db);
+
+    expect(result).toEqual({
+      valid: false,
+      issues: [{ type: "syntax_error", message: 'syntax error at or near "FRM"', line: 2, column: 1 }],
+      tables: [],
+      identifiers_checked: false
+    });
+    expect(db.executeQuery).toHaveBeenCalledTimes(1);
+  });
+
+  it("says when identifiers could not be checked", async () => {
+    const result = await validate("SELECT * EXCLUDE (event_name) FROM aws_cloudtrail_log");
+
+    expect(result).toMatchObject({ valid: true, identifiers_checked: false });
+    expect(result.warning).toContain("tables and columns were not checked");
+  });
+
+  it("flags statements that tailpipe_query would reject", async () => {
+    const result = await validate("DROP VIEW aws_cloudtrail_log");
+
+    expect(result.valid).toBe(false);
+    expect(result.issues[0]).toMatchObject({ type: "not_read_only" });
+  });
+});
@@ -0,0 +1,63 @@
+import { jest } from "@jest/globals";
+import { mkdtempSync, rmSync, writeFileSync } from "fs";
+import { tmpdir } from "os";
+import { join } from "path";
+
+const dir = mkdtempSync(join(tmpdir(), "tailpipe-saved-query-run-"));
+process.env.TAILPIPE_MCP_SAVED_QUERIES_DIR = dir;
+
+const { tool: savedQueryRun } = await import("../../../src/tools/tailpipe_saved_query_run.js");
+
+const handler = savedQueryRun.handler as (db: any, args: Record<string, unknown>) => Promise<any>;
+
+describe("tailpipe_saved_query_run tool", () => {
+  beforeAll(() => {
+    writeFileSync(join(dir, "failed_logins.sql"), `---
+description: Failed console logins for a user
+parameters:
+  - name: user
+  - name: limit_days
+    type: integer
+    default: 7
+---
+SELECT user_name FROM logins WHERE user_name = $user AND tp_date >= current_date - $limit_days
+`);
+  });
+
+  afterAll(() => {
+    rmSync(dir, { recursive: true, force: true });
+  });
+
+  it("runs the saved query through tailpipe_query with bound params", async () => {
+    const executeQuery = jest.fn<(sql: string, params: any[], options: any) => Promise<any[]>>();
+    executeQuery.mockResolvedValue([{ user_name: "alice" }]);
+    const describeQuery = jest.fn<(sql: string) => Promise<any[]>>();
+    describeQuery.mockResolvedValue([{ name: "user_name", type: "VARCHAR" }]);
+
+    const result = await handler({ executeQuery, describeQuery, initScriptFingerprint: "init@1" } as any, {
+      name: "failed_logins",
+      params: { user: "alice" },
+      format: "csv"
+    });
+
+    expect(executeQuery).toHaveBeenCalledWith(
+      "SELECT * FROM (SELECT user_name FROM logins WHERE user_name = $1 AND tp_date >= current_date - $2) AS tailpipe_page LIMIT 1001 OFFSET 0",
+      ["alice", 7],
+      expect.any(Object)
+    );
+    expect(result.content[0].text).toBe("user_name\nalice");
+    expect(result.isError).toBe(false);
+  });
+
+  it("reports missing parameters without running anything", async () => {
+    const executeQuery = jest.fn();
+
+    const result = await handler({ executeQuery } as any, { name: "failed_logins" });
+
+    expect(result).toEqual({
+      content: [{ type: "text", text: '{"error":"Missing required parameter user for saved query failed_logins"}' }],
+      isError: true
+    });
+    expect(executeQuery).not.toHaveBeenCalled();
+  });
+});
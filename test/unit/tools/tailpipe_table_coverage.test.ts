@@ -0,0 +1,112 @@
+import { jest } from "@jest/globals";
+import { tool } from "../../../src/tools/tailpipe_table_coverage.js";
+import { RESPONSE_MAX_BYTES } from "../../../src/utils/budget.js";
+import { catalogRow, mockCatalogDb } from "../../helpers/catalog.js";
+
+const catalogRows = [
+  catalogRow("aws_cloudtrail_log", "tp_date", "DATE", { nullable: false }),
+  catalogRow("aws_cloudtrail_log", "tp_timestamp", "TIMESTAMP", { nullable: false }),
+  catalogRow("aws_vpc_flow_log", "tp_date", "DATE", { nullable: false }),
+  catalogRow("aws_vpc_flow_log", "tp_timestamp", "TIMESTAMP", { nullable: false }),
+  catalogRow("lookup", "id", "INTEGER", { view: false })
+];
+
+const buckets: Record<string, any[]> = {
+  aws_cloudtrail_log: [
+    { bucket: "2024-03-01", row_count: BigInt(10), first_timestamp: new Date("2024-03-01T00:05:00Z"), last_timestamp: new Date("2024-03-01T23:55:00Z") },
+    { bucket: "2024-03-02", row_count: BigInt(5), first_timestamp: new Date("2024-03-02T01:00:00Z"), last_timestamp: new Date("2024-03-02T22:00:00Z") },
+    { bucket: "2024-03-05", row_count: BigInt(7), first_timestamp: new Date("2024-03-05T03:00:00Z"), last_timestamp: new Date("2024-03-05T18:30:00Z") },
+    { bucket: "2024-03-07", row_count: BigInt(1), first_timestamp: new Date("2024-03-07T09:00:00Z"), last_timestamp: new Date("2024-03-07T09:00:00Z") }
+  ],
+  aws_vpc_flow_log: []
+};
+
+function mockDb() {
+  return mockCatalogDb(catalogRows, sql => buckets[sql.match(/FROM "memory"\."main"\."(\w+)"/)![1]]);
+}
+
+async function coverage(args: Record<string, unknown>, db = mockDb()) {
+  const result = await (tool.handler as any)(db, args);
+  return { result, response: JSON.parse(result.content[0].text), db };
+}
+
+describe("tailpipe_table_coverage tool", () => {
+  it("reports the time range, histogram and gaps of a table", async () => {
+    const { result, response, db } = await coverage({ table: "aws_cloudtrail_log" });
+
+    expect(result.isError).toBe(false);
+    expect(response).toEqual({
+      granularity: "day",
+      tables: [{
+        table: "aws_cloudtrail_log",
+        row_count: 23,
+        first_timestamp: "2024-03-01T00:05:00.000Z",
+        last_timestamp: "2024-03-07T09:00:00.000Z",
+        histogram: [
+          { bucket: "2024-03-01", row_count: 10 },
+          { bucket: "2024-03-02", row_count: 5 },
+          { bucket: "2024-03-05", row_count: 7 },
+          { bucket: "2024-03-07", row_count: 1 }
+        ],
+        gaps: [
+          { start: "2024-03-03", end: "2024-03-04", days: 2 },
+          { start: "2024-03-06", end: "2024-03-06", days: 1 }
+        ],
+        gap_days: 3
+      }]
+    });
+
+    const [sql] = db.executeQuery.mock.calls[1];
+    expect(sql).toContain("strftime(tp_date, '%Y-%m-%d') AS bucket");
+  });
+
+  it("measures every table partitioned by time when no table is given", async () => {
+    const sendProgress = jest.fn();
+    const db = mockDb();
+    const result = await (tool.handler as any)(db, { granularity: "hour", start: "2024-03-01", end: "2024-03-08" }, { sendProgress });
+    const response = JSON.parse(result.content[0].text);
+
+    expect(response.tables.map((table: any) => table.table)).toEqual(["aws_cloudtrail_log", "aws_vpc_flow_log"]);
+    expect(response.tables[1]).toEqual({
+      table: "aws_vpc_flow_log",
+      row_count: 0,
+      first_timestamp: null,
+      last_timestamp: null,
+      histogram: [],
+      gaps: [],
+      gap_days: 0
+    });
+    expect(sendProgress).toHaveBeenLastCalledWith(2, "Measured 2 of 2 tables");
+
+    const [sql, params] = db.executeQuery.mock.calls[1];
+    expect(sql).toContain("date_trunc('hour', tp_timestamp)");
+    expect(sql).toContain("tp_date >= CAST(CAST(? AS TIMESTAMP) AS DATE) AND tp_timestamp >= CAST(? AS TIMESTAMP)");
+    expect(params).toEqual(["2024-03-01", "2024-03-01", "2024-03-08", "2024-03-08"]);
+  });
+
+  it("keeps the latest histogram buckets of every table within the response budget", async () => {
+    const hours = Array.from({ length: 10000 }, (_, i) => {
+      const hour = new Date(Date.UTC(2024, 0, 1) + i * 60 * 60 * 1000);
+      return { bucket: hour.toISOString().slice(0, 19), row_count: BigInt(1), first_timestamp: hour, last_timestamp: hour };
+    });
+    const db = mockCatalogDb(catalogRows, sql => sql.includes("aws_cloudtrail_log") ? hours : buckets.aws_cloudtrail_log);
+
+    const result = await (tool.handler as any)(db, { granularity: "hour" });
+    const [cloudtrail, vpcFlow] = JSON.parse(result.content[0].text).tables;
+
+    expect(Buffer.byteLength(result.content[0].text)).toBeLessThanOrEqual(RESPONSE_MAX_BYTES);
+    expect(cloudtrail.row_count).toBe(10000);
+    expect(cloudtrail.histogram.length + cloudtrail.histogram_buckets_dropped).toBe(10000);
+    expect(cloudtrail.histogram.at(-1)).toEqual({ bucket: hours[9999].bucket, row_count: 1 });
+    // Tables that fit their share are left whole
+    expect(vpcFlow.histogram).toHaveLength(4);
+    expect(vpcFlow.histogram_buckets_dropped).toBeUndefined();
+  });
+
+  it("rejects tables that are not partitioned by time", async () => {
+    const { result, response } = await coverage({ table: "lookup" });
+
+    expect(result.isError).toBe(true);
+    expect(response.error).toBe("Table lookup has no tp_date or tp_timestamp column, so its time coverage cannot be measured.");
+  });
+});
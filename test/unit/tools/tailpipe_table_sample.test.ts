@@ -0,0 +1,90 @@
+import { jest } from "@jest/globals";
+import { tool } from "../../../src/tools/tailpipe_table_sample.js";
+import { catalogRow, mockCatalogDb } from "../../helpers/catalog.js";
+
+const catalogRows = [
+  catalogRow("aws_cloudtrail_log", "event_name", "VARCHAR"),
+  catalogRow("aws_cloudtrail_log", "tp_index", "VARCHAR", { nullable: false }),
+  catalogRow("aws_cloudtrail_log", "tp_timestamp", "TIMESTAMP", { nullable: false }),
+  catalogRow("lookup", "id", "INTEGER", { view: false })
+];
+
+const sampleRows = [
+  { event_name: "ConsoleLogin", tp_index: "123456789012", tp_timestamp: "2024-03-01T10:00:00.000000Z" }
+];
+
+function mockDb() {
+  const describeQuery = jest.fn<(sql: string) => Promise<any[]>>().mockResolvedValue([
+    { name: "event_name", type: "VARCHAR" },
+    { name: "tp_index", type: "VARCHAR" },
+    { name: "tp_timestamp", type: "TIMESTAMP" }
+  ]);
+  return { ...mockCatalogDb(catalogRows, () => sampleRows), describeQuery };
+}
+
+async function sample(args: Record<string, unknown>, db = mockDb()) {
+  const result = await (tool.handler as any)(db, args);
+  const sampleCall = db.executeQuery.mock.calls.find(([sql]) => !sql.includes("information_schema.columns"));
+  const response = JSON.parse(result.content[0].text);
+  // The sampling query as built, before timestamps are formatted around it
+  return { result, response, sql: response.debug?.sql, executed: sampleCall?.[0], params: sampleCall?.[1] };
+}
+
+describe("tailpipe_table_sample tool", () => {
+  it("returns the latest rows, serialized like query results", async () => {
+    const { result, response, sql, executed, params } = await sample({ table: "AWS_CloudTrail_Log" });
+
+    expect(result.isError).toBe(false);
+    expect(sql).toBe('SELECT * FROM "memory"."main"."aws_cloudtrail_log" ORDER BY tp_timestamp DESC LIMIT 10');
+    expect(executed).toBe(`SELECT * REPLACE (strftime("tp_timestamp", '%Y-%m-%dT%H:%M:%S.%fZ') AS "tp_timestamp") FROM (${sql}) AS tailpipe_values`);
+    expect(params).toEqual([]);
+    expect(response).toEqual({
+      table: "aws_cloudtrail_log",
+      mode: "latest",
+      columns: [
+        { name: "event_name", type: "VARCHAR" },
+        { name: "tp_index", type: "VARCHAR" },
+        { name: "tp_timestamp", type: "TIMESTAMP" }
+      ],
+      rows: [{ event_name: "ConsoleLogin", tp_index: "123456789012", tp_timestamp: "2024-03-01T10:00:00.000000Z" }],
+      row_count: 1,
+      truncated: false,
+      debug: { sql }
+    });
+  });
+
+  it("binds the time window as parameters", async () => {
+    const { sql, params } = await sample({ table: "aws_cloudtrail_log", mode: "random", rows: 5, start: "2024-03-01", end: "2024-03-02", seed: 42 });
+
+    expect(sql).toBe('SELECT * FROM (SELECT * FROM "memory"."main"."aws_cloudtrail_log" WHERE tp_timestamp >= CAST(? AS TIMESTAMP) AND tp_timestamp < CAST(? AS TIMESTAMP)) AS tailpipe_sample USING SAMPLE reservoir(5 ROWS) REPEATABLE (42)');
+    expect(params).toEqual(["2024-03-01", "2024-03-02"]);
+  });
+
+  it("spreads stratified samples across tp_index values", async () => {
+    const { sql } = await sample({ table: "aws_cloudtrail_log", mode: "stratified", rows: 3 });
+
+    expect(sql).toContain("row_number() OVER (PARTITION BY tp_index ORDER BY random()) AS tailpipe_sample_rank");
+    expect(sql).toContain("ORDER BY tailpipe_sample_rank, tp_index LIMIT 3");
+  });
+
+  it("rejects tables that are not in the catalog without querying them", async () => {
+    const db = mockDb();
+    const { result, response, sql } = await sample({ table: "aws_cloudtrail_logs; DROP TABLE x" }, db);
+
+    expect(result.isError).toBe(true);
+    expect(response.error).toMatch(/^Table not found: aws_cloudtrail_logs; DROP TABLE x\./);
+    expect(sql).toBeUndefined();
+  });
+
+  it("explains when the table lacks the columns a mode needs", async () => {
+    const { result, response } = await sample({ table: "lookup", mode: "stratified" });
+    expect(result.isError).toBe(true);
+    expect(response.error).toMatch(/no tp_index column/);
+
+    const { response: latest } = await sample({ table: "lookup" });
+    expect(latest.error).toMatch(/no tp_timestamp column/);
+
+    const { result: random } = await sample({ table: "lookup", mode: "random" });
+    expect(random.isError).toBe(false);
+  });
+});
@@ -0,0 +1,143 @@
+import { jest } from "@jest/globals";
+import { catalogRow, mockCatalogDb } from "../../helpers/catalog.js";
+
+const executeCommandMock = jest.fn<(cmd: string, options?: unknown) => string>();
+const formatCommandErrorMock = jest.fn();
+const loggerMock = {
+  debug: jest.fn(),
+  info: jest.fn(),
+  warn: jest.fn(),
+  error: jest.fn()
+};
+
+async function loadTool(modulePath: string) {
+  jest.resetModules();
+  executeCommandMock.mockReset();
+  formatCommandErrorMock.mockReset();
+
+  jest.unstable_mockModule("../../../src/utils/command.js", () => ({
+    executeCommand: executeCommandMock,
+    formatCommandError: formatCommandErrorMock,
+    MAX_BUFFER_SIZE: 0
+  }));
+
+  jest.unstable_mockModule("../../../src/services/logger.js", () => ({
+    logger: loggerMock
+  }));
+
+  return import(modulePath);
+}
+
+const catalogRows = [
+  catalogRow("aws_cloudtrail_log", "event_name", "VARCHAR", { comment: "AWS CloudTrail events" }),
+  catalogRow("aws_cloudtrail_log", "tp_timestamp", "TIMESTAMP", { nullable: false, comment: "AWS CloudTrail events" }),
+  catalogRow("lookup", "id", "INTEGER", { view: false })
+];
+
+function mockDb() {
+  return mockCatalogDb(catalogRows, sql => [{ row_count: BigInt(sql.includes("aws_cloudtrail_log") ? 1200 : 3) }]);
+}
+
+const cliFailure = () => {
+  throw new Error("tailpipe: command not found");
+};
+
+describe("tailpipe_table_list tool", () => {
+  it("lists tables from the CLI by default", async () => {
+    const { tool } = await loadTool("../../../src/tools/tailpipe_table_list.js");
+    executeCommandMock.mockReturnValue(JSON.stringify([
+      { name: "table_a", local: { file_count: 1, file_size: 1024 }, plugin: "aws" }
+    ]));
+
+    const result = await tool.handler(mockDb(), {});
+
+    expect(executeCommandMock).toHaveBeenCalledWith("tailpipe table list --output json", { env: expect.any(Object) });
+    expect(JSON.parse(result.content[0].text)).toEqual({
+      tables: [{ name: "table_a", local: { file_count: 1, file_size: 1024 }, plugin: "aws" }],
+      source: "cli",
+      debug: { command: "tailpipe table list --output json" }
+    });
+  });
+
+  it("falls back to the DuckDB session when the CLI fails", async () => {
+    const { tool } = await loadTool("../../../src/tools/tailpipe_table_list.js");
+    executeCommandMock.mockImplementation(cliFailure);
+
+    const result = await tool.handler(mockDb(), {});
+
+    expect(JSON.parse(result.content[0].text)).toEqual({
+      tables: [
+        { name: "aws_cloudtrail_log", catalog: "memory", schema: "main", type: "view", description: "AWS CloudTrail events", column_count: 2 },
+        { name: "lookup", catalog: "memory", schema: "main", type: "table", column_count: 1 }
+      ],
+      source: "duckdb",
+      fallback_reason: "tailpipe: command not found",
+      debug: { command: "tailpipe table list --output json" }
+    });
+  });
+
+  it("counts rows from the DuckDB session without calling the CLI", async () => {
+    const { tool } = await loadTool("../../../src/tools/tailpipe_table_list.js");
+    const db = mockDb();
+
+    const result = await tool.handler(db, { row_counts: true });
+
+    const payload = JSON.parse(result.content[0].text);
+    expect(executeCommandMock).not.toHaveBeenCalled();
+    expect(payload.source).toBe("duckdb");
+    expect(payload.tables.map((table: any) => table.row_count)).toEqual([1200, 3]);
+    expect(db.executeQuery).toHaveBeenCalledWith('SELECT count(*) AS row_count FROM "memory"."main"."aws_cloudtrail_log"', [], { signal: undefined });
+  });
+});
+
+describe("tailpipe_table_show tool", () => {
+  it("shows CLI details by default", async () => {
+    const { tool } = await loadTool("../../../src/tools/tailpipe_table_show.js");
+    executeCommandMock.mockReturnValue(JSON.stringify({ name: "table_a", status: "ok" }));
+
+    const result = await tool.handler(mockDb(), { name: "table_a" });
+
+    expect(executeCommandMock).toHaveBeenCalledWith("tailpipe table show table_a --output json", { env: expect.any(Object) });
+    expect(JSON.parse(result.content[0].text)).toEqual({
+      table: { name: "table_a", status: "ok" },
+      source: "cli",
+      debug: { command: "tailpipe table show table_a --output json" }
+    });
+  });
+
+  it("describes the table from the DuckDB session when preferred", async () => {
+    const { tool } = await loadTool("../../../src/tools/tailpipe_table_show.js");
+
+    const result = await tool.handler(mockDb(), { name: "AWS_CloudTrail_Log", source: "duckdb", row_count: true });
+
+    expect(executeCommandMock).not.toHaveBeenCalled();
+    expect(JSON.parse(result.content[0].text)).toMatchObject({
+      table: {
+        name: "aws_cloudtrail_log",
+        catalog: "memory",
+        schema: "main",
+        type: "view",
+        description: "AWS CloudTrail events",
+        columns: [
+          { name: "event_name", type: "VARCHAR", nullable: true },
+          { name: "tp_timestamp", type: "TIMESTAMP", nullable: false }
+        ],
+        row_count: 1200
+      },
+      source: "duckdb"
+    });
+  });
+
+  it("reports the fallback error with suggestions when neither source knows the table", async () => {
+    const { tool } = await loadTool("../../../src/tools/tailpipe_table_show.js");
+    executeCommandMock.mockImplementation(cliFailure);
+    formatCommandErrorMock.mockImplementation((error: any) => ({ isError: true, content: [{ type: "text", text: error.message }] }));
+
+    const result = await tool.handler(mockDb(), { name: "aws_cloudtrail_logs" });
+
+    expect(result).toEqual({
+      isError: true,
+      content: [{ type: "text", text: 'Table not found: aws_cloudtrail_logs. Did you mean "aws_cloudtrail_log"?' }]
+    });
+  });
+});
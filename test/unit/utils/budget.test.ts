@@ -0,0 +1,95 @@
+import { clipString, fitPageToBudget, fitToBudget } from "../../../src/utils/budget.js";
+import { decodeCursor } from "../../../src/utils/pagination.js";
+
+const size = (value: unknown) => Buffer.byteLength(JSON.stringify(value));
+
+describe("clipString", () => {
+  it("leaves strings within the limit alone", () => {
+    expect(clipString("short", 5)).toBeUndefined();
+  });
+
+  it("clips with a marker giving the bytes cut", () => {
+    expect(clipString("abcdefghij", 4)).toEqual({ text: "abcd…[truncated 6 of 10 bytes]", kept_bytes: 4 });
+  });
+
+  it("does not split multi-byte characters", () => {
+    // "é" is two bytes, so the third byte falls inside the second character
+    expect(clipString("éééé", 3)).toEqual({ text: "é…[truncated 6 of 8 bytes]", kept_bytes: 2 });
+  });
+});
+
+describe("fitToBudget", () => {
+  it("returns responses within the budget unchanged", () => {
+    const data = { tables: [{ name: "a" }], debug: { command: "tailpipe table list" } };
+    expect(fitToBudget(data, 1000)).toBe(data);
+  });
+
+  it("drops trailing list items and says how many", () => {
+    const tables = Array.from({ length: 50 }, (_, i) => ({ name: `table_${i}`, description: "x".repeat(50) }));
+
+    const result = fitToBudget({ tables, debug: { command: "tailpipe table list" } }, 1000);
+
+    expect(size(result)).toBeLessThanOrEqual(1000);
+    const kept = (result.tables as unknown[]).length;
+    expect(kept).toBeGreaterThan(0);
+    expect(result.tables).toEqual(tables.slice(0, kept));
+    expect(result.truncation).toMatchObject({
+      max_bytes: 1000,
+      dropped_items: [{ path: "tables", kept, dropped: 50 - kept }]
+    });
+  });
+});
+
+describe("fitPageToBudget", () => {
+  const sql = "SELECT * FROM logs";
+  const page = (rows: Record<string, unknown>[]) => ({ rows, row_count: rows.length, truncated: false });
+
+  it("returns pages within the budget unchanged", () => {
+    const input = page([{ id: 1 }, { id: 2 }]);
+    expect(fitPageToBudget(input, { columns: [] }, { sql, offset: 0, params: [] }, 1000)).toBe(input);
+  });
+
+  it("drops rows past the budget and resumes at the first dropped row", () => {
+    const rows = Array.from({ length: 100 }, (_, id) => ({ id, note: "y".repeat(40) }));
+
+    const result = fitPageToBudget(page(rows), { columns: [] }, { sql, offset: 200, params: [] }, 2000);
+
+    expect(size({ columns: [], ...result })).toBeLessThanOrEqual(2000);
+    expect(result.row_count).toBe(result.rows.length);
+    expect(result.truncated).toBe(true);
+    expect(decodeCursor(result.next_cursor!, sql)).toBe(200 + result.rows.length);
+    expect(result.truncation?.dropped_items).toEqual([{ path: "rows", kept: result.rows.length, dropped: 100 - result.rows.length }]);
+    expect(result.truncation?.hint).toMatch(/next_cursor/);
+  });
+
+  it("always keeps at least one row", () => {
+    const result = fitPageToBudget(page([{ note: "z".repeat(500) }, { note: "z" }]), {}, { sql, offset: 0, params: [] }, 100);
+
+    expect(result.rows).toHaveLength(1);
+    expect(decodeCursor(result.next_cursor!, sql)).toBe(1);
+  });
+
+  it("leaves out next_cursor when the page cannot be resumed", () => {
+    const result = fitPageToBudget(page([{ note: "z".repeat(500) }, { note: "z" }]), {}, undefined, 200);
+
+    expect(result.rows).toHaveLength(1);
+    expect(result.truncated).toBe(true);
+    expect(result.next_cursor).toBeUndefined();
+    expect(result.truncation?.hint).toMatch(/on its own/);
+  });
+
+  it("clips oversized cells, including nested values", () => {
+    const blob = "p".repeat(20 * 1024);
+
+    const result = fitPageToBudget(page([{ id: 1, request_parameters: { policy: blob } }]), {}, { sql, offset: 0, params: [] });
+
+    expect(result.rows[0].request_parameters).toEqual({ policy: `${"p".repeat(16 * 1024)}…[truncated 4096 of 20480 bytes]` });
+    expect(result.truncated).toBe(false);
+    expect(result.truncation).toEqual({
+      max_bytes: 256 * 1024,
+      clipped_values: [{ path: "rows[0].request_parameters.policy", original_bytes: 20480, kept_bytes: 16384 }],
+      clipped_value_count: 1,
+      hint: expect.stringMatching(/substr\(\)/)
+    });
+  });
+});
@@ -0,0 +1,52 @@
+import { flattenColumnType, listElementType, structFields } from "../../../src/utils/columnTypes.js";
+
+describe("structFields", () => {
+  it("splits fields at the top level only", () => {
+    expect(structFields('STRUCT("type" VARCHAR, arn VARCHAR, session_context STRUCT(mfa BOOLEAN, issuer STRUCT(arn VARCHAR)))')).toEqual([
+      { name: "type", type: "VARCHAR" },
+      { name: "arn", type: "VARCHAR" },
+      { name: "session_context", type: "STRUCT(mfa BOOLEAN, issuer STRUCT(arn VARCHAR))" }
+    ]);
+  });
+
+  it("keeps commas inside quoted names and parameterized types", () => {
+    expect(structFields('STRUCT("a, b" DECIMAL(18,3), tags MAP(VARCHAR, VARCHAR))')).toEqual([
+      { name: "a, b", type: "DECIMAL(18,3)" },
+      { name: "tags", type: "MAP(VARCHAR, VARCHAR)" }
+    ]);
+  });
+
+  it("returns undefined for other types", () => {
+    expect(structFields("VARCHAR")).toBeUndefined();
+    expect(structFields("STRUCT(arn VARCHAR)[]")).toBeUndefined();
+  });
+});
+
+describe("listElementType", () => {
+  it("unwraps lists and fixed-size arrays", () => {
+    expect(listElementType("VARCHAR[]")).toBe("VARCHAR");
+    expect(listElementType("STRUCT(arn VARCHAR)[]")).toBe("STRUCT(arn VARCHAR)");
+    expect(listElementType("DOUBLE[3]")).toBe("DOUBLE");
+    expect(listElementType("VARCHAR")).toBeUndefined();
+  });
+});
+
+describe("flattenColumnType", () => {
+  it("lists nested struct fields by path, marking list elements with []", () => {
+    expect(flattenColumnType("user_identity", "STRUCT(arn VARCHAR, session_context STRUCT(mfa BOOLEAN))")).toEqual([
+      { path: "user_identity", type: "STRUCT(arn VARCHAR, session_context STRUCT(mfa BOOLEAN))" },
+      { path: "user_identity.arn", type: "VARCHAR" },
+      { path: "user_identity.session_context", type: "STRUCT(mfa BOOLEAN)" },
+      { path: "user_identity.session_context.mfa", type: "BOOLEAN" }
+    ]);
+
+    expect(flattenColumnType("resources", "STRUCT(arn VARCHAR)[]")).toEqual([
+      { path: "resources", type: "STRUCT(arn VARCHAR)[]" },
+      { path: "resources[].arn", type: "VARCHAR" }
+    ]);
+  });
+
+  it("returns just the column for scalar types", () => {
+    expect(flattenColumnType("event_name", "VARCHAR")).toEqual([{ path: "event_name", type: "VARCHAR" }]);
+  });
+});
@@ -0,0 +1,61 @@
+import { existsSync, mkdtempSync, rmSync, symlinkSync } from "fs";
+import { tmpdir } from "os";
+import { join } from "path";
+import { buildCopySql, resolveExportPath } from "../../../src/utils/export.js";
+
+describe("resolveExportPath", () => {
+  let root: string;
+
+  beforeEach(() => {
+    root = mkdtempSync(join(tmpdir(), "tailpipe-export-test-"));
+  });
+
+  afterEach(() => {
+    rmSync(root, { recursive: true, force: true });
+  });
+
+  it("resolves names inside the export root and adds the format's extension", () => {
+    expect(resolveExportPath("findings", "parquet", root)).toBe(join(root, "findings.parquet"));
+    expect(resolveExportPath("cases/123/logins.csv", "csv", root)).toBe(join(root, "cases/123/logins.csv"));
+  });
+
+  it("adds the format's extension to names with another extension, and rejects another format's", () => {
+    expect(resolveExportPath("report.2024", "csv", root)).toBe(join(root, "report.2024.csv"));
+    expect(resolveExportPath("findings.PARQUET", "parquet", root)).toBe(join(root, "findings.PARQUET"));
+    expect(() => resolveExportPath("out.csv", "parquet", root)).toThrow("has the extension .csv, which does not match format parquet");
+  });
+
+  it("uses a timestamped name by default", () => {
+    expect(resolveExportPath(undefined, "jsonl", root)).toMatch(/tailpipe-export-.*\.jsonl$/);
+  });
+
+  it.each(["../outside.csv", "a/../../outside.csv", "/etc/passwd"])("rejects %s", filename => {
+    expect(() => resolveExportPath(filename, "csv", root)).toThrow("Export path must be a relative path inside the export directory");
+  });
+
+  it("rejects paths through symlinks that leave the export root", () => {
+    const outside = mkdtempSync(join(tmpdir(), "tailpipe-export-outside-"));
+    symlinkSync(outside, join(root, "link"));
+
+    expect(() => resolveExportPath("link/out.csv", "csv", root)).toThrow("Export path must be a relative path inside the export directory");
+    expect(() => resolveExportPath("link/nested/out.csv", "csv", root)).toThrow("Export path must be a relative path inside the export directory");
+    // Nothing is created outside the root before the path is rejected
+    expect(existsSync(join(outside, "nested"))).toBe(false);
+
+    rmSync(outside, { recursive: true, force: true });
+  });
+
+  it("rejects a target file that is a symlink", () => {
+    symlinkSync(join(tmpdir(), "tailpipe-export-elsewhere.csv"), join(root, "planted.csv"));
+
+    expect(() => resolveExportPath("planted.csv", "csv", root)).toThrow("Export path must not be a symlink: planted.csv");
+  });
+});
+
+describe("buildCopySql", () => {
+  it("builds a COPY statement for each format", () => {
+    expect(buildCopySql("SELECT 1", "/exports/a.parquet", "parquet")).toBe("COPY (SELECT 1) TO '/exports/a.parquet' (FORMAT PARQUET)");
+    expect(buildCopySql("SELECT 1", "/exports/a.csv", "csv")).toBe("COPY (SELECT 1) TO '/exports/a.csv' (FORMAT CSV, HEADER)");
+    expect(buildCopySql("SELECT 1", "/exports/o'brien.jsonl", "jsonl")).toBe("COPY (SELECT 1) TO '/exports/o''brien.jsonl' (FORMAT JSON)");
+  });
+});
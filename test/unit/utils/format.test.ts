@@ -1,10 +1,19 @@
-import { formatListResult, stringifyResponse, validateAndFormat } from "../../../src/utils/format.js";
+import { formatListResult, formatQueryResult, stringifyResponse, validateAndFormat } from "../../../src/utils/format.js";
 
 describe("stringifyResponse", () => {
   it("returns compact JSON strings", () => {
     const value = { foo: "bar", nested: { value: 1 } };
     expect(stringifyResponse(value)).toBe('{"foo":"bar","nested":{"value":1}}');
   });
+
+  it("fits oversized responses into the budget unless they are already budgeted", () => {
+    const value = { items: Array.from({ length: 20000 }, (_, id) => ({ id, name: "x".repeat(20) })) };
+
+    expect(JSON.parse(stringifyResponse(value)).truncation.dropped_items).toEqual([
+      expect.objectContaining({ path: "items", dropped: expect.any(Number) })
+    ]);
+    expect(stringifyResponse(value, { budgeted: true })).toBe(JSON.stringify(value));
+  });
 });
 
 describe("validateAndFormat", () => {
@@ -43,3 +52,45 @@ describe("formatListResult", () => {
   });
 });
 
+describe("formatQueryResult", () => {
+  const page = {
+    columns: [
+      { name: "id", type: "INTEGER" },
+      { name: "note", type: "VARCHAR" }
+    ],
+    rows: [
+      { id: 1, note: "a, \"quoted\" | value" },
+      { id: 2, note: null }
+    ],
+    row_count: 2,
+    truncated: false
+  };
+
+  it("returns row objects by default", () => {
+    expect(formatQueryResult(page)).toEqual([
+      { type: "text", text: stringifyResponse(page) }
+    ]);
+  });
+
+  it("returns columnar JSON", () => {
+    expect(JSON.parse(formatQueryResult(page, "columnar")[0].text)).toEqual({
+      columns: page.columns,
+      rows: [[1, 'a, "quoted" | value'], [2, null]],
+      row_count: 2,
+      truncated: false
+    });
+  });
+
+  it("returns CSV followed by metadata", () => {
+    expect(formatQueryResult(page, "csv")).toEqual([
+      { type: "text", text: 'id,note\n1,"a, ""quoted"" | value"\n2,' },
+      { type: "text", text: '{"columns":[{"name":"id","type":"INTEGER"},{"name":"note","type":"VARCHAR"}],"row_count":2,"truncated":false}' }
+    ]);
+  });
+
+  it("returns a Markdown table followed by metadata", () => {
+    expect(formatQueryResult(page, "markdown")[0].text).toBe(
+      '| id | note |\n| --- | --- |\n| 1 | a, "quoted" \\| value |\n| 2 |  |'
+    );
+  });
+});
@@ -0,0 +1,43 @@
+import { buildPage, buildPagedSql, decodeCursor, encodeCursor } from "../../../src/utils/pagination.js";
+
+describe("buildPagedSql", () => {
+  it("wraps a single query and strips comments and trailing semicolons", () => {
+    expect(buildPagedSql("SELECT * FROM t -- latest first\n;", 10, 20))
+      .toBe("SELECT * FROM (SELECT * FROM t) AS tailpipe_page LIMIT 11 OFFSET 20");
+  });
+
+  it("leaves statements that cannot be used as a subquery alone", () => {
+    expect(buildPagedSql("EXPLAIN SELECT 1", 10, 0)).toBeUndefined();
+    expect(buildPagedSql("SELECT 1; SELECT 2", 10, 0)).toBeUndefined();
+  });
+});
+
+describe("buildPage", () => {
+  it("slices the full result set when the query was not wrapped", () => {
+    const page = buildPage([1, 2, 3, 4, 5], "EXPLAIN SELECT 1", 2, 2, true);
+
+    expect(page).toMatchObject({ rows: [3, 4], row_count: 2, truncated: true });
+    expect(decodeCursor(page.next_cursor!, "EXPLAIN SELECT 1")).toBe(4);
+  });
+
+  it("omits the cursor on the last page", () => {
+    expect(buildPage([1, 2], "SELECT 1", 2, 0, false)).toEqual({ rows: [1, 2], row_count: 2, truncated: false });
+  });
+});
+
+describe("decodeCursor", () => {
+  it("rejects malformed cursors", () => {
+    expect(() => decodeCursor("not-a-cursor", "SELECT 1")).toThrow("Invalid cursor");
+  });
+
+  it("rejects cursors for another query", () => {
+    expect(() => decodeCursor(encodeCursor("SELECT 1", 10), "SELECT 2")).toThrow(/does not belong/);
+  });
+
+  it("rejects cursors issued for other params", () => {
+    const cursor = encodeCursor("SELECT ?", 10, ["a"]);
+
+    expect(decodeCursor(cursor, "SELECT ?", ["a"])).toBe(10);
+    expect(() => decodeCursor(cursor, "SELECT ?", ["b"])).toThrow(/does not belong/);
+  });
+});
@@ -0,0 +1,85 @@
+import { buildLosslessSql, serializeRow, serializeValue } from "../../../src/utils/serialize.js";
+
+describe("serializeValue", () => {
+  it("converts bigints to numbers or strings depending on their size", () => {
+    expect(serializeValue(BigInt(5))).toBe(5);
+    expect(serializeValue(BigInt(Number.MAX_SAFE_INTEGER) + BigInt(2))).toBe("9007199254740993");
+  });
+
+  it("formats dates and timestamps as ISO-8601", () => {
+    const value = new Date("2024-03-01T00:00:00Z");
+
+    expect(serializeValue(value, "DATE")).toBe("2024-03-01");
+    expect(serializeValue(value, "TIMESTAMP")).toBe("2024-03-01T00:00:00.000Z");
+  });
+
+  it("encodes blobs as base64", () => {
+    expect(serializeValue(Buffer.from("tailpipe"))).toBe("dGFpbHBpcGU=");
+  });
+
+  it("keeps non-finite numbers", () => {
+    expect(serializeValue(Number.NaN)).toBe("NaN");
+    expect(serializeValue(Number.NEGATIVE_INFINITY)).toBe("-Infinity");
+  });
+
+  it("recurses into lists and structs", () => {
+    expect(serializeValue({
+      user_identity: { session_context: { created: new Date("2024-03-01T10:00:00Z") } },
+      resources: [{ account: BigInt(123456789012) }, null]
+    })).toEqual({
+      user_identity: { session_context: { created: "2024-03-01T10:00:00.000Z" } },
+      resources: [{ account: 123456789012 }, null]
+    });
+  });
+});
+
+describe("serializeRow", () => {
+  it("uses column types to serialize each value", () => {
+    expect(serializeRow(
+      { tp_date: new Date("2024-03-01T00:00:00Z"), count: BigInt(3) },
+      [{ name: "tp_date", type: "DATE" }, { name: "count", type: "BIGINT" }]
+    )).toEqual({ tp_date: "2024-03-01", count: 3 });
+  });
+});
+
+describe("buildLosslessSql", () => {
+  it("casts wide numerics and expands maps", () => {
+    expect(buildLosslessSql("SELECT * FROM t", [
+      { name: "id", type: "INTEGER" },
+      { name: "total", type: "HUGEINT" },
+      { name: "tags", type: "MAP(VARCHAR, VARCHAR)" }
+    ])).toBe(
+      'SELECT * REPLACE (CAST("total" AS VARCHAR) AS "total", map_entries("tags") AS "tags") FROM (SELECT * FROM t) AS tailpipe_values'
+    );
+  });
+
+  it("converts values nested in structs, lists and maps", () => {
+    expect(buildLosslessSql("SELECT * FROM t", [
+      { name: "amounts", type: "DECIMAL(18,3)[]" },
+      { name: "usage", type: 'STRUCT("bytes" HUGEINT, region VARCHAR)' },
+      { name: "prices", type: "MAP(VARCHAR, DECIMAL(10,2))" }
+    ])).toBe(
+      "SELECT * REPLACE ("
+        + 'list_transform("amounts", lambda tailpipe_item0: CAST(tailpipe_item0 AS VARCHAR)) AS "amounts", '
+        + `CASE WHEN "usage" IS NULL THEN NULL ELSE struct_pack("bytes" := CAST(struct_extract("usage", 'bytes') AS VARCHAR), "region" := struct_extract("usage", 'region')) END AS "usage", `
+        + `list_transform(map_entries("prices"), lambda tailpipe_entry0: struct_pack(key := struct_extract(tailpipe_entry0, 'key'), value := CAST(struct_extract(tailpipe_entry0, 'value') AS VARCHAR))) AS "prices"`
+        + ") FROM (SELECT * FROM t) AS tailpipe_values"
+    );
+  });
+
+  it("formats timestamps in SQL to keep their microseconds", () => {
+    expect(buildLosslessSql("SELECT * FROM t", [
+      { name: "tp_timestamp", type: "TIMESTAMP" },
+      { name: "seen", type: "TIMESTAMP WITH TIME ZONE" }
+    ])).toBe(
+      "SELECT * REPLACE ("
+        + `strftime("tp_timestamp", '%Y-%m-%dT%H:%M:%S.%fZ') AS "tp_timestamp", `
+        + `strftime(timezone('UTC', "seen"), '%Y-%m-%dT%H:%M:%S.%fZ') AS "seen"`
+        + ") FROM (SELECT * FROM t) AS tailpipe_values"
+    );
+  });
+
+  it("returns undefined when no column needs converting", () => {
+    expect(buildLosslessSql("SELECT 1", [{ name: "x", type: "INTEGER" }])).toBeUndefined();
+  });
+});
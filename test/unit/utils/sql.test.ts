@@ -0,0 +1,144 @@
+import { assertReadOnlySql, bindNamedPlaceholders, classifySqlStatements, countSqlPlaceholders, maskSqlLiterals, parseSessionStatement, qualifiedTableName, splitSqlStatements } from "../../../src/utils/sql.js";
+
+describe("splitSqlStatements", () => {
+  it("ignores semicolons in strings, identifiers and comments", () => {
+    const script = `
+      SELECT 'a;b' AS "x;y"; -- trailing; comment
+      /* block; comment */ PRAGMA version;
+    `;
+
+    expect(splitSqlStatements(script)).toEqual([
+      `SELECT 'a;b' AS "x;y"`,
+      "PRAGMA version"
+    ]);
+  });
+
+  it("honours backslash escapes in E'...' strings", () => {
+    expect(splitSqlStatements("SELECT E'it\\'s; fine', TIME'12:00'; DROP VIEW v; --'")).toEqual([
+      "SELECT E'it\\'s; fine', TIME'12:00'",
+      "DROP VIEW v"
+    ]);
+  });
+
+  it("treats $ after a name character as part of an identifier, not a dollar quote", () => {
+    expect(splitSqlStatements("DESCRIBE SELECT 1 AS a$$; DROP VIEW v; SELECT 1 AS b$$")).toEqual([
+      "DESCRIBE SELECT 1 AS a$$",
+      "DROP VIEW v",
+      "SELECT 1 AS b$$"
+    ]);
+  });
+
+  it("accepts digits in dollar-quote tags", () => {
+    expect(splitSqlStatements("SELECT $a1$;$a1$; SELECT 2")).toEqual(["SELECT $a1$;$a1$", "SELECT 2"]);
+  });
+});
+
+describe("maskSqlLiterals", () => {
+  it("masks E'...' strings up to their real closing quote", () => {
+    expect(maskSqlLiterals("SELECT E'\\''; ATTACH 'x'")).toBe(`SELECT ${" ".repeat(5)}; ATTACH ${" ".repeat(3)}`);
+  });
+});
+
+describe("classifySqlStatements", () => {
+  it("uses the SQL parser for statements it understands", () => {
+    expect(classifySqlStatements("SELECT 1; DROP VIEW v")).toEqual(["SELECT", "DROP"]);
+  });
+
+  it("falls back to DuckDB keyword classification", () => {
+    expect(classifySqlStatements("DESCRIBE foo; COPY foo TO 'out.csv'")).toEqual(["DESCRIBE", "COPY"]);
+  });
+
+  it("classifies EXPLAIN and WITH by the statement they wrap", () => {
+    expect(classifySqlStatements("EXPLAIN ANALYZE SELECT 1")).toEqual(["EXPLAIN"]);
+    expect(classifySqlStatements("EXPLAIN ANALYZE CREATE TABLE t AS SELECT 1")).toEqual(["CREATE"]);
+    expect(classifySqlStatements("WITH a(x) AS (SELECT ')') INSERT INTO t SELECT * FROM a; PRAGMA version"))
+      .toEqual(["INSERT", "PRAGMA"]);
+  });
+});
+
+describe("assertReadOnlySql", () => {
+  it.each([
+    "SELECT * FROM aws_cloudtrail_log",
+    "WITH recent AS (SELECT 1) SELECT * FROM recent",
+    "DESCRIBE aws_cloudtrail_log",
+    "SUMMARIZE SELECT 1",
+    "EXPLAIN SELECT 1"
+  ])("allows %s", sql => {
+    expect(() => assertReadOnlySql(sql)).not.toThrow();
+  });
+
+  it.each([
+    ["CREATE TABLE t (id INT)", "CREATE"],
+    ["DROP VIEW aws_cloudtrail_log", "DROP"],
+    ["COPY aws_cloudtrail_log TO '/tmp/out.csv'", "COPY"],
+    ["ATTACH 'other.db'", "ATTACH"],
+    ["INSTALL httpfs", "INSTALL"],
+    ["SET threads = 1", "SET"],
+    ["PRAGMA enable_profiling", "PRAGMA"],
+    ["SELECT 1; DROP TABLE t", "DROP"],
+    ["SELECT * INTO copy FROM aws_cloudtrail_log", "SELECT INTO"],
+    ["SUMMARIZE SELECT E'\\''; DROP VIEW aws_cloudtrail_log; --'", "DROP"],
+    ["DESCRIBE SELECT E'\\''; ATTACH '/tmp/x.db'; --'", "ATTACH"],
+    ["DESCRIBE SELECT 1 AS a$$; DROP VIEW v; SELECT 1 AS b$$", "DROP"],
+    ["EXPLAIN SELECT 1 AS a$t$; DROP VIEW v; SELECT 1 AS b$t$", "DROP"]
+  ])("blocks %s", (sql, type) => {
+    expect(() => assertReadOnlySql(sql)).toThrow(`${type} statements are not permitted`);
+  });
+
+  it("rejects several statements the SQL parser cannot check", () => {
+    expect(() => assertReadOnlySql("DESCRIBE foo; SUMMARIZE foo")).toThrow("run them one at a time");
+    expect(() => assertReadOnlySql("DESCRIBE foo;")).not.toThrow();
+  });
+
+  it("rejects empty input", () => {
+    expect(() => assertReadOnlySql("  -- nothing here\n")).toThrow("No SQL statement provided");
+  });
+});
+
+describe("countSqlPlaceholders", () => {
+  it.each([
+    ["SELECT * FROM t WHERE a = ? AND b = ?", 2],
+    ["SELECT * FROM t WHERE a = $1 OR b = $1 OR c = $2", 2],
+    ["SELECT * FROM t WHERE a = $user AND b = $user", 1],
+    ["SELECT '?', \"$1\" FROM t -- where a = ?", 0]
+  ])("counts the placeholders in %s", (sql, expected) => {
+    expect(countSqlPlaceholders(sql)).toBe(expected);
+  });
+});
+
+describe("bindNamedPlaceholders", () => {
+  it("numbers named placeholders in order of first appearance", () => {
+    expect(bindNamedPlaceholders("SELECT * FROM t WHERE b = $user AND a >= $since AND '$x' <> $user")).toEqual({
+      sql: "SELECT * FROM t WHERE b = $1 AND a >= $2 AND '$x' <> $1",
+      names: ["user", "since"]
+    });
+  });
+});
+
+describe("qualifiedTableName", () => {
+  it("quotes the catalog, schema and name", () => {
+    expect(qualifiedTableName({ catalog: "logs", schema: "main", name: 'my "table"' })).toBe('"logs"."main"."my ""table"""');
+  });
+});
+
+describe("parseSessionStatement", () => {
+  it.each([
+    ["SET VARIABLE since = current_date - INTERVAL 7 DAY", { kind: "variable", name: "since" }],
+    ["set variable \"My Var\" TO 1", { kind: "variable", name: "\"My Var\"" }],
+    ["CREATE TEMP MACRO is_root(arn) AS arn LIKE '%:root'", { kind: "macro", name: "is_root" }],
+    ["CREATE TEMPORARY FUNCTION add_one(x) AS x + 1", { kind: "macro", name: "add_one" }],
+    ["CREATE TEMP MACRO recent(days) AS TABLE SELECT * FROM aws_cloudtrail_log", { kind: "table macro", name: "recent" }]
+  ])("recognizes %s", (statement, expected) => {
+    expect(parseSessionStatement(statement)).toEqual(expected);
+  });
+
+  it.each([
+    "SET threads = 1",
+    "CREATE MACRO is_root(arn) AS arn LIKE '%:root'",
+    "CREATE OR REPLACE TEMP MACRO is_root(arn) AS arn LIKE '%:root'",
+    "CREATE TEMP TABLE t AS SELECT 1",
+    "SELECT 1"
+  ])("ignores %s", statement => {
+    expect(parseSessionStatement(statement)).toBeUndefined();
+  });
+});
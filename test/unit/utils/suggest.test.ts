@@ -0,0 +1,18 @@
+import { suggestNames } from "../../../src/utils/suggest.js";
+
+describe("suggestNames", () => {
+  const columns = ["event_name", "event_source", "source_ip_address", "tp_timestamp", "tp_date", "id"];
+
+  it("suggests the closest names first", () => {
+    expect(suggestNames("evnt_name", columns)).toEqual(["event_name"]);
+    expect(suggestNames("TP_TIMESTAMPS", columns)).toEqual(["tp_timestamp"]);
+  });
+
+  it("suggests names containing the unknown name", () => {
+    expect(suggestNames("source_ip", columns)).toEqual(["source_ip_address"]);
+  });
+
+  it("returns nothing when no name is close", () => {
+    expect(suggestNames("region", columns)).toEqual([]);
+  });
+});
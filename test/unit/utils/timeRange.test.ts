@@ -0,0 +1,30 @@
+import { findUnboundedScans } from "../../../src/utils/timeRange.js";
+
+describe("findUnboundedScans", () => {
+  const tables = new Set(["aws_cloudtrail_log", "aws_alb_access_log"]);
+
+  it.each([
+    "SELECT * FROM aws_cloudtrail_log WHERE tp_date >= current_date - INTERVAL 7 DAY",
+    "SELECT * FROM aws_cloudtrail_log c WHERE c.tp_timestamp > now() - INTERVAL 1 HOUR",
+    "SELECT * FROM aws_cloudtrail_log c JOIN aws_alb_access_log a ON a.tp_date = c.tp_date AND a.client_ip = c.source_ip_address WHERE c.tp_date = current_date",
+    "WITH recent AS (SELECT * FROM aws_cloudtrail_log WHERE tp_date = current_date) SELECT * FROM recent",
+    "SELECT * FROM aws_cloudtrail_log c JOIN some_lookup_table l ON l.arn = c.user_identity.arn WHERE tp_date = current_date",
+    "SELECT * FROM some_lookup_table",
+    "DESCRIBE aws_cloudtrail_log",
+    "EXPLAIN SELECT * FROM aws_cloudtrail_log"
+  ])("allows %s", sql => {
+    expect(findUnboundedScans(sql, tables)).toEqual([]);
+  });
+
+  it.each([
+    ["SELECT count(*) FROM aws_cloudtrail_log", ["aws_cloudtrail_log"]],
+    ["SELECT * FROM aws_cloudtrail_log c JOIN aws_alb_access_log a ON a.client_ip = c.source_ip_address WHERE c.tp_date = current_date", ["aws_alb_access_log"]],
+    ["WITH all_events AS (SELECT * FROM aws_cloudtrail_log) SELECT * FROM all_events WHERE tp_date = current_date", ["aws_cloudtrail_log"]],
+    ["SELECT * FROM aws_alb_access_log WHERE tp_date = current_date AND client_ip IN (SELECT source_ip_address FROM aws_cloudtrail_log)", ["aws_cloudtrail_log"]],
+    ["SELECT * FROM aws_cloudtrail_log c JOIN aws_alb_access_log a ON a.client_ip = c.source_ip_address WHERE tp_date = current_date", ["aws_cloudtrail_log", "aws_alb_access_log"]],
+    ["SUMMARIZE aws_cloudtrail_log", ["aws_cloudtrail_log"]],
+    ["EXPLAIN ANALYZE SELECT * FROM aws_cloudtrail_log", ["aws_cloudtrail_log"]]
+  ])("flags %s", (sql, expected) => {
+    expect(findUnboundedScans(sql, tables)).toEqual(expected);
+  });
+});